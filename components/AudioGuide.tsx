@@ -1,13 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { FiVolume2, FiPause, FiPlay } from 'react-icons/fi';
 import { IItinerary, IDay, IActivity } from '@/models/Itinerary';
-import { formatCostToINR } from '@/lib/currencyUtils';
+import { formatCost } from '@/lib/currencyUtils';
+import { useCurrency } from '@/components/CurrencyProvider';
 
 interface AudioGuideProps {
   itinerary: IItinerary;
 }
 
 export default function AudioGuide({ itinerary }: AudioGuideProps) {
+  const { preference } = useCurrency();
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -35,7 +37,7 @@ export default function AudioGuide({ itinerary }: AudioGuideProps) {
 
   const generateAudioText = (): string => {
     let text = `Welcome to your travel itinerary for ${itinerary.destination}. `;
-    text += `This is a ${itinerary.totalDays} day trip with a budget of ${formatCostToINR(itinerary.budget)}. `;
+    text += `This is a ${itinerary.totalDays} day trip with a budget of ${formatCost(itinerary.budget, preference)}. `;
     
     if (itinerary.interests && itinerary.interests.length > 0) {
       text += `Your interests include: ${itinerary.interests.join(', ')}. `;
@@ -64,13 +66,13 @@ export default function AudioGuide({ itinerary }: AudioGuideProps) {
               text += `Duration: ${activity.duration}. `;
             }
             if (activity.cost) {
-              text += `Cost: ${formatCostToINR(activity.cost)}. `;
+              text += `Cost: ${formatCost(activity.cost, preference)}. `;
             }
           });
         }
         
         if (day.totalCost) {
-          text += `Total cost for the day: ${formatCostToINR(day.totalCost)}. `;
+          text += `Total cost for the day: ${formatCost(day.totalCost, preference)}. `;
         }
         
         if (day.notes) {
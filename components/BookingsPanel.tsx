@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { FiBookOpen, FiEdit2, FiPaperclip, FiPlus, FiTrash2 } from 'react-icons/fi';
+import { BookingType, IBooking } from '@/models/Booking';
+import {
+  ATTACHMENT_TYPES,
+  BOOKING_TYPE_OPTIONS,
+  describeBookingDates,
+  getBookingTypeLabel,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/bookings';
+import { formatCost } from '@/lib/currencyUtils';
+import { useCurrency } from '@/components/CurrencyProvider';
+
+interface BookingsPanelProps {
+  itineraryId: string;
+  bookings: IBooking[];
+  onChange: (bookings: IBooking[]) => void;
+}
+
+const EMPTY_FORM = {
+  type: 'flight' as BookingType,
+  provider: '',
+  confirmationNumber: '',
+  start: '',
+  end: '',
+  location: '',
+  cost: '',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none';
+
+// Reads a file as base64, without the data URL prefix
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export default function BookingsPanel({ itineraryId, bookings, onChange }: BookingsPanelProps) {
+  const { preference } = useCurrency();
+  const [showForm, setShowForm] = useState(false);
+  // The booking being edited, or null when adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [file, setFile] = useState<File | null>(null);
+  const [removeAttachment, setRemoveAttachment] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const editingBooking = bookings.find((booking) => booking._id === editingId);
+
+  const openForm = (booking?: IBooking) => {
+    setEditingId(booking?._id || null);
+    setForm(booking ? {
+      type: booking.type,
+      provider: booking.provider,
+      confirmationNumber: booking.confirmationNumber || '',
+      start: booking.start,
+      end: booking.end || '',
+      location: booking.location || '',
+      cost: booking.cost || '',
+    } : EMPTY_FORM);
+    setFile(null);
+    setRemoveAttachment(false);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.provider.trim() || !form.start) {
+      toast.error('Please enter the provider and start time');
+      return;
+    }
+
+    if (file && (!ATTACHMENT_TYPES.includes(file.type) || file.size > MAX_ATTACHMENT_BYTES)) {
+      toast.error(`Attachments must be a PDF or an image smaller than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const attachment = file
+        ? { filename: file.name, contentType: file.type, data: await readAsBase64(file) }
+        : removeAttachment ? null : undefined;
+
+      const res = await fetch(
+        editingId ? `/api/itineraries/${itineraryId}/bookings/${editingId}` : `/api/itineraries/${itineraryId}/bookings`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          // Costs without a currency symbol are in the user's home currency
+          body: JSON.stringify({ ...form, currency: preference.currency, attachment }),
+        }
+      );
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(editingId ? 'Booking updated!' : 'Booking added!');
+        const others = bookings.filter((booking) => booking._id !== editingId);
+        onChange([...others, data.data].sort((a, b) => a.start.localeCompare(b.start)));
+        setShowForm(false);
+      } else {
+        toast.error(data.message || 'Failed to save booking');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (booking: IBooking) => {
+    if (!confirm(`Delete the booking "${booking.provider}"?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/itineraries/${itineraryId}/bookings/${booking._id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Booking deleted');
+        onChange(bookings.filter((entry) => entry._id !== booking._id));
+      } else {
+        toast.error(data.message || 'Failed to delete booking');
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete booking');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <FiBookOpen className="w-5 h-5 mr-2" />
+          Bookings ({bookings.length})
+        </h3>
+        <button
+          onClick={() => (showForm ? setShowForm(false) : openForm())}
+          className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <FiPlus className="w-4 h-4" />
+          <span>{showForm ? 'Close' : 'Add booking'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as BookingType })}
+              aria-label="Booking type"
+              className={inputClass}
+            >
+              {BOOKING_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Provider, e.g. IndiGo 6E 2134"
+              value={form.provider}
+              onChange={(e) => setForm({ ...form, provider: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Confirmation number"
+              value={form.confirmationNumber}
+              onChange={(e) => setForm({ ...form, confirmationNumber: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-sm text-gray-600">
+              {form.type === 'stay' ? 'Check-in' : 'Starts'} (local time)
+              <input
+                type="datetime-local"
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              {form.type === 'stay' ? 'Check-out' : 'Ends'} (optional)
+              <input
+                type="datetime-local"
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Location, e.g. Jaipur Airport"
+              value={form.location}
+              onChange={(e) => setForm({ ...form, location: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder={`Cost (${preference.currency})`}
+              value={form.cost}
+              onChange={(e) => setForm({ ...form, cost: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+            <label className="flex items-center">
+              <FiPaperclip className="w-4 h-4 mr-1" />
+              <input
+                type="file"
+                accept={ATTACHMENT_TYPES.join(',')}
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </label>
+            {editingBooking?.attachment && !file && (
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={removeAttachment}
+                  onChange={(e) => setRemoveAttachment(e.target.checked)}
+                  className="mr-2"
+                />
+                Remove {editingBooking.attachment.filename}
+              </label>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : editingId ? 'Save booking' : 'Add booking'}
+          </button>
+        </form>
+      )}
+
+      {bookings.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Add your confirmed flights, stays, train tickets and reservations to see them on the right day.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {bookings.map((booking) => (
+            <li key={booking._id} className="flex items-start justify-between gap-4 border border-gray-200 rounded-lg p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  <span className="mr-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs">
+                    {getBookingTypeLabel(booking.type)}
+                  </span>
+                  {booking.provider}
+                </p>
+                <p className="text-xs text-gray-600 mt-1">{describeBookingDates(booking)}</p>
+                <p className="text-xs text-gray-500">
+                  {[
+                    booking.location,
+                    booking.confirmationNumber && `Confirmation ${booking.confirmationNumber}`,
+                    booking.cost && formatCost(booking.cost, preference),
+                  ].filter(Boolean).join(' · ')}
+                </p>
+                {booking.attachment && (
+                  <a
+                    href={`/api/itineraries/${itineraryId}/bookings/${booking._id}/attachment`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center mt-1 text-xs text-blue-600 hover:underline"
+                  >
+                    <FiPaperclip className="w-3 h-3 mr-1" />
+                    {booking.attachment.filename}
+                  </a>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => openForm(booking)}
+                  title="Edit booking"
+                  className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <FiEdit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(booking)}
+                  title="Delete booking"
+                  className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  <FiTrash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
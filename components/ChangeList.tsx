@@ -0,0 +1,36 @@
+import { FiPlus, FiMinus, FiEdit3 } from 'react-icons/fi';
+import { ItineraryChange } from '@/lib/itineraryDiff';
+
+const CHANGE_STYLES: { [key in ItineraryChange['type']]: { icon: JSX.Element; className: string } } = {
+  added: { icon: <FiPlus className="w-4 h-4" />, className: 'text-green-700 bg-green-50' },
+  removed: { icon: <FiMinus className="w-4 h-4" />, className: 'text-red-700 bg-red-50' },
+  modified: { icon: <FiEdit3 className="w-4 h-4" />, className: 'text-amber-700 bg-amber-50' },
+};
+
+/**
+ * Renders the output of diffItineraries as a list of added, removed and modified items
+ */
+export default function ChangeList({ changes }: { changes: ItineraryChange[] }) {
+  return (
+    <ul className="space-y-2 mb-3">
+      {changes.map((change, index) => (
+        <li key={index} className={`text-sm rounded p-2 ${CHANGE_STYLES[change.type].className}`}>
+          <div className="flex items-center gap-2 font-medium">
+            {CHANGE_STYLES[change.type].icon}
+            <span>
+              {change.day && change.scope === 'activity' ? `Day ${change.day}: ` : ''}
+              {change.title}
+            </span>
+          </div>
+          {change.details && change.details.length > 0 && (
+            <ul className="mt-1 ml-6 text-xs space-y-0.5">
+              {change.details.map((detail, detailIndex) => (
+                <li key={detailIndex}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
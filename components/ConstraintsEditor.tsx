@@ -0,0 +1,58 @@
+import { ITripConstraints } from '@/models/Itinerary';
+import { ACCESSIBILITY_OPTIONS, DIETARY_OPTIONS, RELIGIOUS_OPTIONS } from '@/lib/tripConstraints';
+
+interface ConstraintsEditorProps {
+  value: ITripConstraints;
+  onChange: (value: ITripConstraints) => void;
+}
+
+const GROUPS: { key: 'dietary' | 'accessibility' | 'religious'; label: string; options: string[] }[] = [
+  { key: 'dietary', label: 'Dietary', options: DIETARY_OPTIONS },
+  { key: 'accessibility', label: 'Accessibility', options: ACCESSIBILITY_OPTIONS },
+  { key: 'religious', label: 'Religious', options: RELIGIOUS_OPTIONS },
+];
+
+export default function ConstraintsEditor({ value, onChange }: ConstraintsEditorProps) {
+  const handleToggle = (key: 'dietary' | 'accessibility' | 'religious', option: string) => {
+    const current = value[key] || [];
+    onChange({
+      ...value,
+      [key]: current.includes(option)
+        ? current.filter((item) => item !== option)
+        : [...current, option],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {GROUPS.map((group) => (
+        <div key={group.key}>
+          <p className="text-sm text-gray-600 mb-2">{group.label}</p>
+          <div className="flex flex-wrap gap-2">
+            {group.options.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleToggle(group.key, option)}
+                className={`px-3 py-1.5 rounded-lg border-2 text-sm transition-all ${
+                  (value[group.key] || []).includes(option)
+                    ? 'border-blue-600 bg-blue-50 text-blue-700 font-semibold'
+                    : 'border-gray-300 hover:border-blue-400 text-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <input
+        type="text"
+        placeholder="Anything else, e.g. no raw fish, avoid crowded places"
+        value={value.notes || ''}
+        onChange={(e) => onChange({ ...value, notes: e.target.value })}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { CurrencyPreference, DEFAULT_CURRENCY_PREFERENCE, normalizeCurrencyPreference } from '@/lib/currencyUtils';
+
+interface CurrencyContextValue {
+  preference: CurrencyPreference;
+  setPreference: (preference: CurrencyPreference) => void;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue>({
+  preference: DEFAULT_CURRENCY_PREFERENCE,
+  setPreference: () => {},
+});
+
+/**
+ * Loads the signed-in user's home currency and locale; signed-out visitors see INR
+ */
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { status } = useSession();
+  const [preference, setPreference] = useState(DEFAULT_CURRENCY_PREFERENCE);
+
+  useEffect(() => {
+    if (status !== 'authenticated') {
+      setPreference(DEFAULT_CURRENCY_PREFERENCE);
+      return;
+    }
+
+    fetch('/api/user/profile')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.data) {
+          setPreference(normalizeCurrencyPreference({ currency: data.data.homeCurrency, locale: data.data.locale }));
+        }
+      })
+      .catch(() => {});
+  }, [status]);
+
+  return (
+    <CurrencyContext.Provider value={{ preference, setPreference }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  return useContext(CurrencyContext);
+}
@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { FiCreditCard, FiEdit2, FiPlus, FiTrash2 } from 'react-icons/fi';
+import { IItinerary } from '@/models/Itinerary';
+import { ExpenseCategory, IExpense } from '@/models/Expense';
+import { EXPENSE_CATEGORY_OPTIONS, getExpenseCategoryLabel, SpendComparison, summarizeExpenses } from '@/lib/expenses';
+import { formatMoney, SUPPORTED_CURRENCIES } from '@/lib/currencyUtils';
+import { formatTripDate, isCalendarDate } from '@/lib/tripDates';
+import { useCurrency } from '@/components/CurrencyProvider';
+
+interface ExpenseTrackerProps {
+  itinerary: IItinerary;
+  expenses: ExpenseEntry[];
+  onChange: (expenses: ExpenseEntry[]) => void;
+}
+
+// An expense as returned by /api/itineraries/[id]/expenses, with the payer populated
+export type ExpenseEntry = Omit<IExpense, 'paidBy'> & { paidBy: { _id: string; name?: string; email?: string } };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none';
+
+export default function ExpenseTracker({ itinerary, expenses, onChange }: ExpenseTrackerProps) {
+  const { preference } = useCurrency();
+  const emptyForm = {
+    amount: '',
+    currency: preference.currency,
+    category: 'food' as ExpenseCategory,
+    dayIndex: '0',
+    activityIndex: '',
+    paidBy: '',
+    date: '',
+    description: '',
+  };
+  const [showForm, setShowForm] = useState(false);
+  // The expense being edited, or null when adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  // The owner and collaborators, populated by the itinerary API
+  const members = [itinerary.userId, ...(itinerary.collaborators || [])].map((member: any) => ({
+    id: String(member?._id || member),
+    name: member?.name || member?.email || 'Traveler',
+  }));
+
+  const summary = summarizeExpenses(itinerary, expenses);
+  const selectedDay = itinerary.days?.[parseInt(form.dayIndex)];
+
+  const formatPaid = (amount: number, currency: string) =>
+    new Intl.NumberFormat(preference.locale, { style: 'currency', currency }).format(amount);
+
+  const openForm = (expense?: ExpenseEntry) => {
+    setEditingId(expense?._id || null);
+    setForm(expense ? {
+      amount: String(expense.amount),
+      currency: expense.currency,
+      category: expense.category,
+      dayIndex: String(expense.dayIndex),
+      activityIndex: expense.activityIndex !== undefined ? String(expense.activityIndex) : '',
+      paidBy: expense.paidBy?._id || '',
+      date: expense.date,
+      description: expense.description || '',
+    } : emptyForm);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!(parseFloat(form.amount) > 0)) {
+      toast.error('Please enter an amount');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const res = await fetch(
+        editingId ? `/api/itineraries/${itinerary._id}/expenses/${editingId}` : `/api/itineraries/${itinerary._id}/expenses`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(form),
+        }
+      );
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(editingId ? 'Expense updated!' : 'Expense added!');
+        const others = expenses.filter((expense) => expense._id !== editingId);
+        onChange([...others, data.data].sort((a, b) => a.dayIndex - b.dayIndex));
+        setShowForm(false);
+      } else {
+        toast.error(data.message || 'Failed to save expense');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save expense');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (expense: ExpenseEntry) => {
+    if (!confirm('Delete this expense?')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/itineraries/${itinerary._id}/expenses/${expense._id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Expense deleted');
+        onChange(expenses.filter((entry) => entry._id !== expense._id));
+      } else {
+        toast.error(data.message || 'Failed to delete expense');
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete expense');
+    }
+  };
+
+  const renderComparison = (label: string, { estimated, actual }: SpendComparison, key: string | number) => (
+    <tr key={key} className="border-t border-gray-100">
+      <td className="py-1 pr-4 text-gray-700">{label}</td>
+      <td className="py-1 pr-4 text-right text-gray-600">{formatMoney(estimated, preference)}</td>
+      <td className={`py-1 pr-4 text-right font-medium ${actual > estimated ? 'text-red-600' : 'text-gray-900'}`}>
+        {formatMoney(actual, preference)}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <FiCreditCard className="w-5 h-5 mr-2" />
+          Expenses
+        </h3>
+        <button
+          onClick={() => (showForm ? setShowForm(false) : openForm())}
+          className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <FiPlus className="w-4 h-4" />
+          <span>{showForm ? 'Close' : 'Add expense'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value })}
+              aria-label="Currency"
+              className={inputClass}
+            >
+              {SUPPORTED_CURRENCIES.map((option) => (
+                <option key={option.code} value={option.code}>{option.code}</option>
+              ))}
+            </select>
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value as ExpenseCategory })}
+              aria-label="Category"
+              className={inputClass}
+            >
+              {EXPENSE_CATEGORY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={form.paidBy}
+              onChange={(e) => setForm({ ...form, paidBy: e.target.value })}
+              aria-label="Paid by"
+              className={inputClass}
+            >
+              <option value="">Paid by me</option>
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>Paid by {member.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={form.dayIndex}
+              onChange={(e) => setForm({ ...form, dayIndex: e.target.value, activityIndex: '' })}
+              aria-label="Day"
+              className={inputClass}
+            >
+              {itinerary.days?.map((day, index) => (
+                <option key={index} value={index}>
+                  Day {index + 1}{isCalendarDate(day.date) ? ` · ${formatTripDate(day.date, { year: false })}` : ''}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.activityIndex}
+              onChange={(e) => setForm({ ...form, activityIndex: e.target.value })}
+              aria-label="Activity"
+              className={inputClass}
+            >
+              <option value="">No activity</option>
+              {selectedDay?.activities?.map((activity, index) => (
+                <option key={index} value={index}>{activity.title}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+              title="Date spent, for the exchange rate (defaults to the day's date)"
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : editingId ? 'Save expense' : 'Add expense'}
+          </button>
+        </form>
+      )}
+
+      {expenses.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Log what you actually spend to compare it with the estimate. Foreign-currency amounts are converted at the rate of the day they were spent.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700 mb-4">
+            Spent <span className={`font-semibold ${summary.actual > summary.estimated ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(summary.actual, preference)}</span>
+            {' '}of an estimated {formatMoney(summary.estimated, preference)}
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            {[
+              { title: 'By day', rows: summary.days.map((day) => renderComparison(`Day ${day.dayIndex + 1}`, day, day.dayIndex)) },
+              { title: 'By category', rows: summary.categories.map((entry) => renderComparison(getExpenseCategoryLabel(entry.category), entry, entry.category)) },
+            ].map(({ title, rows }) => (
+              <table key={title} className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="pb-1 pr-4 text-left font-medium">{title}</th>
+                    <th className="pb-1 pr-4 text-right font-medium">Estimated</th>
+                    <th className="pb-1 pr-4 text-right font-medium">Actual</th>
+                  </tr>
+                </thead>
+                <tbody>{rows}</tbody>
+              </table>
+            ))}
+          </div>
+
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {expenses.map((expense) => (
+              <li key={expense._id} className="flex items-start justify-between gap-4 border border-gray-200 rounded-lg p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatPaid(expense.amount, expense.currency)}
+                    {expense.currency !== preference.currency && (
+                      <span className="ml-1 font-normal text-gray-500">
+                        ({formatMoney(expense.amountINR, preference)}{expense.rateDate ? '' : ', approximate rate'})
+                      </span>
+                    )}
+                    <span className="ml-2 text-xs font-normal text-gray-600">{getExpenseCategoryLabel(expense.category)}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      `Day ${expense.dayIndex + 1}`,
+                      expense.activityIndex !== undefined && itinerary.days?.[expense.dayIndex]?.activities?.[expense.activityIndex]?.title,
+                      expense.description,
+                      `paid by ${expense.paidBy?.name || expense.paidBy?.email || 'a former collaborator'}`,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => openForm(expense)}
+                    title="Edit expense"
+                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    <FiEdit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(expense)}
+                    title="Delete expense"
+                    className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <FiTrash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
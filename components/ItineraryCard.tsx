@@ -2,13 +2,17 @@ import Link from 'next/link';
 import { IItinerary } from '@/models/Itinerary';
 import { FiMapPin, FiCalendar, FiDollarSign, FiUsers } from 'react-icons/fi';
 import { format } from 'date-fns';
-import { formatCostToINR } from '@/lib/currencyUtils';
+import { formatCost } from '@/lib/currencyUtils';
+import { useCurrency } from '@/components/CurrencyProvider';
+import { formatTripDate } from '@/lib/tripDates';
 
 interface ItineraryCardProps {
   itinerary: IItinerary;
 }
 
 export default function ItineraryCard({ itinerary }: ItineraryCardProps) {
+  const { preference } = useCurrency();
+
   return (
     <Link href={`/itineraries/${itinerary._id}`}>
       <div className="bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 overflow-hidden cursor-pointer transform hover:-translate-y-1">
@@ -30,12 +34,15 @@ export default function ItineraryCard({ itinerary }: ItineraryCardProps) {
 
             <div className="flex items-center text-gray-600">
               <FiCalendar className="w-5 h-5 mr-2 text-purple-600" />
-              <span className="text-sm">{itinerary.totalDays} day{itinerary.totalDays > 1 ? 's' : ''}</span>
+              <span className="text-sm">
+                {itinerary.totalDays} day{itinerary.totalDays > 1 ? 's' : ''}
+                {itinerary.startDate && ` · from ${formatTripDate(itinerary.startDate, { weekday: false })}`}
+              </span>
             </div>
 
             <div className="flex items-center text-gray-600">
               <FiDollarSign className="w-5 h-5 mr-2 text-green-600" />
-              <span className="text-sm">Budget: {formatCostToINR(itinerary.budget)}</span>
+              <span className="text-sm">Budget: {formatCost(itinerary.budget, preference)}</span>
             </div>
 
             {itinerary.collaborators && itinerary.collaborators.length > 0 && (
@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from 'react';
+import { FiMapPin, FiMinus, FiPlus, FiX } from 'react-icons/fi';
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+interface PinPickerProps {
+  title: string;
+  // The activity's current location, if it has one
+  position: LatLng | null;
+  // Where to open the map when the activity has no location
+  fallbackCenter: LatLng | null;
+  hasManualPin: boolean;
+  onSave: (position: LatLng | null) => void;
+  onClose: () => void;
+}
+
+const TILE_SIZE = 256;
+const MAP_HEIGHT = 320;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 18;
+// Pointer movement (px) below which a press counts as a click rather than a drag
+const CLICK_TOLERANCE = 4;
+
+// Web Mercator: world pixel coordinates at a zoom level, and back
+function project({ lat, lng }: LatLng, zoom: number) {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+function unproject({ x, y }: { x: number; y: number }, zoom: number): LatLng {
+  const size = TILE_SIZE * 2 ** zoom;
+  const lng = (x / size) * 360 - 180;
+  const lat = (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / size))) * 180) / Math.PI;
+  return { lat, lng: ((((lng + 180) % 360) + 360) % 360) - 180 };
+}
+
+const round = (value: number) => Math.round(value * 1e5) / 1e5;
+
+/**
+ * Modal map for pinning an activity: click the map to place the pin, drag to pan.
+ * Uses OpenStreetMap tiles directly, so no map library is needed.
+ */
+export default function PinPicker({ title, position, fallbackCenter, hasManualPin, onSave, onClose }: PinPickerProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number; moved: number } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(position ? 15 : fallbackCenter ? 12 : MIN_ZOOM);
+  const [center, setCenter] = useState<LatLng>(position || fallbackCenter || { lat: 20, lng: 0 });
+  const [pin, setPin] = useState<LatLng | null>(position);
+
+  useEffect(() => {
+    const measure = () => setWidth(mapRef.current?.clientWidth || 0);
+    measure();
+    window.addEventListener('resize', measure);
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+
+    return () => {
+      window.removeEventListener('resize', measure);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  const centerPx = project(center, zoom);
+  const origin = { x: centerPx.x - width / 2, y: centerPx.y - MAP_HEIGHT / 2 };
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  if (width > 0) {
+    for (let tx = Math.floor(origin.x / TILE_SIZE); tx * TILE_SIZE < origin.x + width; tx++) {
+      for (let ty = Math.floor(origin.y / TILE_SIZE); ty * TILE_SIZE < origin.y + MAP_HEIGHT; ty++) {
+        if (ty < 0 || ty >= tileCount) {
+          continue;
+        }
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${tx}/${ty}`,
+          url: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${ty}.png`,
+          left: tx * TILE_SIZE - origin.x,
+          top: ty * TILE_SIZE - origin.y,
+        });
+      }
+    }
+  }
+
+  const pinPx = pin ? project(pin, zoom) : null;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY, moved: 0 };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) {
+      return;
+    }
+    const dx = e.clientX - drag.current.x;
+    const dy = e.clientY - drag.current.y;
+    drag.current = { x: e.clientX, y: e.clientY, moved: drag.current.moved + Math.abs(dx) + Math.abs(dy) };
+    setCenter(unproject({ x: centerPx.x - dx, y: centerPx.y - dy }, zoom));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag.current && drag.current.moved < CLICK_TOLERANCE) {
+      const bounds = e.currentTarget.getBoundingClientRect();
+      const clicked = unproject({ x: origin.x + e.clientX - bounds.left, y: origin.y + e.clientY - bounds.top }, zoom);
+      setPin({ lat: round(clicked.lat), lng: round(clicked.lng) });
+    }
+    drag.current = null;
+  };
+
+  const handleCoordinate = (field: keyof LatLng, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) {
+      const next = { ...(pin || center), [field]: parsed };
+      setPin(next);
+      setCenter(next);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 backdrop-blur-sm"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center min-w-0">
+            <FiMapPin className="w-5 h-5 mr-2 text-blue-600 flex-shrink-0" />
+            <h2 className="text-lg font-bold text-gray-900 truncate">Pin &quot;{title}&quot;</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <FiX className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">Click the map where this activity takes place. Drag to move around.</p>
+
+          <div
+            ref={mapRef}
+            className="relative overflow-hidden rounded-lg border border-gray-200 bg-gray-100 cursor-crosshair select-none touch-none"
+            style={{ height: MAP_HEIGHT }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {tiles.map((tile) => (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                key={tile.key}
+                src={tile.url}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none"
+                style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+              />
+            ))}
+            {pinPx && (
+              <FiMapPin
+                className="absolute w-8 h-8 text-red-600 drop-shadow pointer-events-none"
+                style={{ left: pinPx.x - origin.x - 16, top: pinPx.y - origin.y - 32 }}
+              />
+            )}
+            <div className="absolute top-2 right-2 flex flex-col bg-white rounded-lg shadow" onPointerDown={(e) => e.stopPropagation()}>
+              <button
+                onClick={() => setZoom(Math.min(zoom + 1, MAX_ZOOM))}
+                className="p-2 hover:bg-gray-100 rounded-t-lg"
+                aria-label="Zoom in"
+              >
+                <FiPlus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setZoom(Math.max(zoom - 1, MIN_ZOOM))}
+                className="p-2 hover:bg-gray-100 rounded-b-lg border-t border-gray-200"
+                aria-label="Zoom out"
+              >
+                <FiMinus className="w-4 h-4" />
+              </button>
+            </div>
+            <span className="absolute bottom-0 right-0 px-1 bg-white bg-opacity-75 text-[10px] text-gray-700">
+              © OpenStreetMap contributors
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {(['lat', 'lng'] as const).map((field) => (
+              <label key={field} className="text-sm text-gray-600">
+                {field === 'lat' ? 'Latitude' : 'Longitude'}
+                <input
+                  type="number"
+                  step="0.00001"
+                  value={pin ? pin[field] : ''}
+                  onChange={(e) => handleCoordinate(field, e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {hasManualPin && (
+              <button
+                onClick={() => onSave(null)}
+                className="px-4 py-2 border border-red-300 text-red-600 text-sm rounded-lg hover:bg-red-50 transition-colors"
+              >
+                Remove pin
+              </button>
+            )}
+            <button
+              onClick={() => pin && onSave(pin)}
+              disabled={!pin}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save pin
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
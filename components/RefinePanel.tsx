@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { FiMessageSquare, FiSend, FiCheck, FiX } from 'react-icons/fi';
+import { IItinerary, IRefinementMessage } from '@/models/Itinerary';
+import { diffItineraries, ItineraryChange } from '@/lib/itineraryDiff';
+import ChangeList from '@/components/ChangeList';
+
+interface RefinePanelProps {
+  itinerary: IItinerary;
+  onUpdate: (itinerary: IItinerary) => void;
+}
+
+export default function RefinePanel({ itinerary, onUpdate }: RefinePanelProps) {
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+  const [resolving, setResolving] = useState(false);
+
+  const refinements = itinerary.refinements || [];
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!message.trim()) {
+      toast.error('Please describe the changes you want');
+      return;
+    }
+
+    setSending(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${itinerary._id}/refine`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ message }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        onUpdate(data.data);
+        setMessage('');
+      } else {
+        toast.error(data.message || 'Failed to refine itinerary');
+      }
+    } catch (error: any) {
+      toast.error('Failed to refine itinerary');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResolve = async (refinement: IRefinementMessage, action: 'accept' | 'reject') => {
+    setResolving(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${itinerary._id}/refine`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId: refinement._id, action }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(action === 'accept' ? 'Changes applied!' : 'Proposal rejected');
+        onUpdate(data.data);
+      } else {
+        toast.error(data.message || 'Failed to update proposal');
+        if (res.status === 409) {
+          onUpdate({
+            ...itinerary,
+            refinements: refinements.map((entry) => (entry._id === refinement._id ? { ...entry, status: 'outdated' } : entry)),
+          });
+        }
+      }
+    } catch (error: any) {
+      toast.error('Failed to update proposal');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <FiMessageSquare className="w-5 h-5 mr-2" />
+        Refine Itinerary
+      </h3>
+
+      {refinements.length > 0 && (
+        <div className="space-y-3 mb-4 max-h-96 overflow-y-auto">
+          {refinements.map((refinement, index) => (
+            <div
+              key={refinement._id || index}
+              className={`p-3 rounded-lg ${
+                refinement.role === 'user' ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'
+              }`}
+            >
+              <p className="text-xs font-medium text-gray-500 mb-1">
+                {refinement.role === 'user' ? 'You' : 'Assistant'}
+                {refinement.status && refinement.status !== 'pending' && ` · ${refinement.status}`}
+              </p>
+              <p className="text-sm text-gray-800">{refinement.content}</p>
+
+              {refinement.status === 'pending' && refinement.proposal && (
+                <ProposalDiff
+                  changes={diffItineraries(itinerary, refinement.proposal)}
+                  disabled={resolving}
+                  onAccept={() => handleResolve(refinement, 'accept')}
+                  onReject={() => handleResolve(refinement, 'reject')}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2">
+        <input
+          type="text"
+          placeholder='e.g., "Make day 2 relaxed and move the beach to the last day"'
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={sending}
+          className="flex items-center space-x-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FiSend className="w-5 h-5" />
+          <span>{sending ? 'Thinking...' : 'Send'}</span>
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface ProposalDiffProps {
+  changes: ItineraryChange[];
+  disabled: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+function ProposalDiff({ changes, disabled, onAccept, onReject }: ProposalDiffProps) {
+  return (
+    <div className="mt-3 border-t border-gray-200 pt-3">
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No changes proposed.</p>
+      ) : (
+        <ChangeList changes={changes} />
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={onAccept}
+          disabled={disabled}
+          className="flex items-center space-x-1 px-4 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FiCheck className="w-4 h-4" />
+          <span>Accept</span>
+        </button>
+        <button
+          onClick={onReject}
+          disabled={disabled}
+          className="flex items-center space-x-1 px-4 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FiX className="w-4 h-4" />
+          <span>Reject</span>
+        </button>
+      </div>
+    </div>
+  );
+}
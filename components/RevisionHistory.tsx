@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { FiClock, FiChevronDown, FiChevronUp, FiRotateCcw } from 'react-icons/fi';
+import { IItinerary } from '@/models/Itinerary';
+import { RevisionAction } from '@/models/ItineraryRevision';
+import { ItineraryChange } from '@/lib/itineraryDiff';
+import ChangeList from '@/components/ChangeList';
+
+interface RevisionHistoryProps {
+  itinerary: IItinerary;
+  onUpdate: (itinerary: IItinerary) => void;
+}
+
+// A revision as listed by /api/itineraries/[id]/revisions (without its snapshot)
+interface RevisionEntry {
+  _id: string;
+  version: number;
+  action: RevisionAction;
+  summary: string;
+  authorId?: { name?: string; email?: string };
+  createdAt: string;
+}
+
+export default function RevisionHistory({ itinerary, onUpdate }: RevisionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Changes from the previous version, for the revision being viewed
+  const [viewing, setViewing] = useState<{ version: number; changes: ItineraryChange[] } | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions();
+    }
+  }, [open, itinerary.updatedAt]);
+
+  const fetchRevisions = async () => {
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${itinerary._id}/revisions`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setRevisions(data.data);
+      } else {
+        toast.error(data.message || 'Failed to load history');
+      }
+    } catch (error: any) {
+      toast.error('Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleView = async (version: number) => {
+    if (viewing?.version === version) {
+      setViewing(null);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/itineraries/${itinerary._id}/revisions/diff?from=${version - 1}&to=${version}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setViewing({ version, changes: data.data.changes });
+      } else {
+        toast.error(data.message || 'Failed to load changes');
+      }
+    } catch (error: any) {
+      toast.error('Failed to load changes');
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current plan stays in the history, so you can switch back.`)) {
+      return;
+    }
+
+    setRestoring(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${itinerary._id}/revisions/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ version }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(`Version ${version} restored!`);
+        setViewing(null);
+        onUpdate(data.data);
+      } else {
+        toast.error(data.message || 'Failed to restore version');
+      }
+    } catch (error: any) {
+      toast.error('Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const latestVersion = revisions[0]?.version;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-lg font-semibold text-gray-900"
+      >
+        <span className="flex items-center">
+          <FiClock className="w-5 h-5 mr-2" />
+          Version History
+        </span>
+        {open ? <FiChevronUp className="w-5 h-5" /> : <FiChevronDown className="w-5 h-5" />}
+      </button>
+
+      {open && (
+        <div className="mt-4">
+          {loading && revisions.length === 0 ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes have been recorded yet.</p>
+          ) : (
+            <ul className="space-y-3 max-h-96 overflow-y-auto">
+              {revisions.map((revision) => (
+                <li key={revision._id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        Version {revision.version}
+                        {revision.version === latestVersion && <span className="ml-2 text-xs text-green-700">current</span>}
+                      </p>
+                      <p className="text-sm text-gray-700">{revision.summary}</p>
+                      <p className="text-xs text-gray-500">
+                        {revision.authorId?.name || revision.authorId?.email || 'Unknown'} · {format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {revision.version > 1 && (
+                        <button
+                          onClick={() => handleView(revision.version)}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          {viewing?.version === revision.version ? 'Hide changes' : 'Changes'}
+                        </button>
+                      )}
+                      {revision.version !== latestVersion && (
+                        <button
+                          onClick={() => handleRestore(revision.version)}
+                          disabled={restoring}
+                          className="flex items-center space-x-1 px-3 py-1 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <FiRotateCcw className="w-3 h-3" />
+                          <span>Restore this version</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {viewing?.version === revision.version && (
+                    <div className="mt-3 border-t border-gray-200 pt-3">
+                      {viewing.changes.length === 0 ? (
+                        <p className="text-sm text-gray-500 italic">No day or activity changes.</p>
+                      ) : (
+                        <ChangeList changes={viewing.changes} />
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { FiBookmark, FiCalendar, FiCpu, FiUsers } from 'react-icons/fi';
+import { IItinerary, ITravelerParty } from '@/models/Itinerary';
+import { describeParty } from '@/lib/travelerParty';
+
+interface TemplatePickerProps {
+  // Template to open first, e.g. from the "Use template" link on a template's page
+  initialTemplateId?: string;
+  onCreated: (itinerary: IItinerary) => void;
+}
+
+// A template as listed by /api/itineraries/templates
+interface TemplateEntry {
+  _id: string;
+  title: string;
+  destination: string;
+  totalDays: number;
+  party?: ITravelerParty;
+}
+
+export default function TemplatePicker({ initialTemplateId, onCreated }: TemplatePickerProps) {
+  const [templates, setTemplates] = useState<TemplateEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [cloning, setCloning] = useState(false);
+  const [form, setForm] = useState({
+    startDate: '',
+    adults: '1',
+    seniors: '0',
+    childAges: '',
+    adapt: false,
+  });
+
+  useEffect(() => {
+    fetch('/api/itineraries/templates')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const list: TemplateEntry[] = data?.data || [];
+        setTemplates(list);
+        const initial = list.find((template) => template._id === initialTemplateId);
+        if (initial) {
+          handleSelect(initial);
+        }
+      })
+      .catch(() => {});
+  }, [initialTemplateId]);
+
+  const handleSelect = (template: TemplateEntry) => {
+    if (selectedId === template._id) {
+      setSelectedId(null);
+      return;
+    }
+
+    // Start from the party the template was planned for
+    setSelectedId(template._id);
+    setForm((prev) => ({
+      ...prev,
+      adults: String(template.party?.adults ?? 1),
+      seniors: String(template.party?.seniors ?? 0),
+      childAges: (template.party?.childAges || []).join(', '),
+    }));
+  };
+
+  const handleClone = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!(parseInt(form.adults) > 0) && !(parseInt(form.seniors) > 0)) {
+      toast.error('At least one adult or senior must be travelling');
+      return;
+    }
+
+    setCloning(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/templates/${selectedId}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          startDate: form.startDate,
+          party: {
+            adults: form.adults,
+            seniors: form.seniors,
+            childAges: form.childAges.split(',').map((age) => age.trim()).filter(Boolean),
+          },
+          adapt: form.adapt,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Itinerary created from template!');
+        onCreated(data.data);
+      } else {
+        toast.error(data.message || 'Failed to create itinerary from template');
+      }
+    } catch (error: any) {
+      toast.error('Failed to create itinerary from template');
+    } finally {
+      setCloning(false);
+    }
+  };
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 border border-gray-200 rounded-xl p-4">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-3">
+        <FiBookmark className="w-5 h-5 mr-2 text-blue-600" />
+        Start from a template
+      </h2>
+      <ul className="space-y-2">
+        {templates.map((template) => (
+          <li key={template._id}>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => handleSelect(template)}
+                className={`flex-1 text-left px-4 py-2 rounded-lg border-2 transition-all ${
+                  selectedId === template._id
+                    ? 'border-blue-600 bg-blue-50'
+                    : 'border-gray-200 hover:border-blue-400'
+                }`}
+              >
+                <span className="block font-medium text-gray-900">{template.title}</span>
+                <span className="block text-xs text-gray-500">
+                  {template.destination} · {template.totalDays} day{template.totalDays === 1 ? '' : 's'}
+                  {template.party && ` · ${describeParty(template.party)}`}
+                </span>
+              </button>
+              <Link href={`/itineraries/${template._id}`} className="text-xs text-blue-600 hover:underline">
+                View
+              </Link>
+            </div>
+
+            {selectedId === template._id && (
+              <form onSubmit={handleClone} className="mt-3 ml-4 space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <label className="text-sm text-gray-600">
+                    <span className="flex items-center mb-1">
+                      <FiCalendar className="w-4 h-4 mr-1" />
+                      Start date
+                    </span>
+                    <input
+                      type="date"
+                      value={form.startDate}
+                      onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    <span className="flex items-center mb-1">
+                      <FiUsers className="w-4 h-4 mr-1" />
+                      Adults
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      value={form.adults}
+                      onChange={(e) => setForm({ ...form, adults: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    <span className="block mb-1">Seniors (65+)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      value={form.seniors}
+                      onChange={(e) => setForm({ ...form, seniors: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    <span className="block mb-1">Children's ages</span>
+                    <input
+                      type="text"
+                      placeholder="e.g., 4, 9"
+                      value={form.childAges}
+                      onChange={(e) => setForm({ ...form, childAges: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.adapt}
+                    onChange={(e) => setForm({ ...form, adapt: e.target.checked })}
+                    className="mr-2"
+                  />
+                  <FiCpu className="w-4 h-4 mr-1 text-purple-600" />
+                  Adapt costs and activities to the new dates and party with AI (uses one generation)
+                </label>
+                <button
+                  type="submit"
+                  disabled={cloning}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {cloning ? (form.adapt ? 'Adapting...' : 'Creating...') : 'Create trip from template'}
+                </button>
+              </form>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Parses activity times ("09:00 AM") and durations ("2 hours") into minutes and
+ * checks each day's schedule for overlapping activities, long idle gaps and
+ * activities that run past midnight.
+ */
+
+interface TimedActivity {
+  title?: string;
+  time?: string;
+  duration?: string;
+  startMinutes?: number;
+  durationMinutes?: number;
+}
+
+interface TimedDay {
+  activities?: TimedActivity[];
+}
+
+export type ScheduleIssueKind = 'overlap' | 'gap' | 'past-midnight';
+
+export interface ScheduleIssue {
+  dayIndex: number;
+  activityIndex: number;
+  kind: ScheduleIssueKind;
+  message: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Free time between activities longer than this is reported as a gap
+const GAP_MINUTES = 3 * 60;
+
+// The meridiem must end the word, so "9 amazing" is not 9 AM
+const CLOCK = /\b(\d{1,2})(?:[:.](\d{2}))?\s*((?:am|pm)\b|a\.m\.|p\.m\.)?/gi;
+const NAMED_TIMES: { [name: string]: number } = { noon: 12 * 60, midday: 12 * 60, midnight: 0 };
+
+// "h" may run straight into the minutes ("1h30m"), but not into a word ("2 hotels")
+const HOURS = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(?:hours?|hrs?|h)(?![a-z])/i;
+// Minutes that directly follow the hours ("1 hour 30 minutes"), so later numbers are not added
+const MINUTES_AFTER_HOURS = /^\s*(?:and\s+|,\s*)?(\d+)\s*(?:minutes?|mins?|m)\b/i;
+const MINUTES = /(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(?:minutes?|mins?|m)\b/i;
+const NAMED_DURATIONS: [RegExp, number][] = [
+  [/\bhalf[\s-]day\b/i, 4 * 60],
+  [/\b(full|whole|all)[\s-]day\b/i, 8 * 60],
+];
+
+/**
+ * Minutes after midnight for a time such as "09:00 AM", "9pm", "21:30" or "Noon",
+ * or null if there is no time in the string. Ranges ("10:00 - 12:00") use their start.
+ */
+export function parseTime(time: string | undefined | null): number | null {
+  if (!time) return null;
+
+  const named = Object.keys(NAMED_TIMES).find((name) => new RegExp(`\\b${name}\\b`, 'i').test(time));
+
+  // Use the first number that reads as a time, so "Day 2, 10:00 AM" finds 10:00
+  for (const match of Array.from(time.matchAll(CLOCK))) {
+    let hours = parseInt(match[1], 10);
+    const minutes = match[2] ? parseInt(match[2], 10) : 0;
+    const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+
+    // A bare number without minutes or AM/PM ("Day 2") is not a time
+    if (!match[2] && !meridiem) continue;
+
+    if (hours > 23 || minutes > 59 || (meridiem && (hours < 1 || hours > 12))) continue;
+
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+
+    return hours * 60 + minutes;
+  }
+
+  return named ? NAMED_TIMES[named] : null;
+}
+
+/**
+ * Duration in minutes for strings such as "2 hours", "1.5 hrs", "1 hour 30 minutes", "1h30m",
+ * "45 mins" or "Half day", or null if it cannot be read. Ranges count at their upper end.
+ */
+export function parseDuration(duration: string | undefined | null): number | null {
+  if (!duration) return null;
+
+  const hours = HOURS.exec(duration);
+  const minutes = hours
+    ? MINUTES_AFTER_HOURS.exec(duration.slice(hours.index + hours[0].length))
+    : MINUTES.exec(duration);
+
+  if (hours || minutes) {
+    const hourValue = hours ? parseFloat(hours[2] || hours[1]) : 0;
+    const minuteValue = minutes ? parseInt(minutes[2] || minutes[1], 10) : 0;
+    return Math.round(hourValue * 60 + minuteValue);
+  }
+
+  const named = NAMED_DURATIONS.find(([pattern]) => pattern.test(duration));
+  return named ? named[1] : null;
+}
+
+/**
+ * Formats minutes after midnight as "hh:mm AM"; values past midnight wrap around
+ */
+export function formatMinutes(minutes: number): string {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+
+  return `${String(displayHours).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+function formatLength(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [hours ? `${hours}h` : '', rest ? `${rest}m` : ''].filter(Boolean).join(' ') || '0m';
+}
+
+/**
+ * Sets each activity's startMinutes and durationMinutes from its time and duration.
+ * Works on documents and plain objects, like applyMoneyFields.
+ */
+export function applyScheduleFields(itinerary: { days?: TimedDay[] }): void {
+  (itinerary.days || []).forEach((day) => {
+    (day.activities || []).forEach((activity) => {
+      activity.startMinutes = parseTime(activity.time) ?? undefined;
+      activity.durationMinutes = parseDuration(activity.duration) ?? undefined;
+    });
+  });
+}
+
+/**
+ * Reports overlaps, gaps and activities running past midnight. Activities are
+ * compared in start-time order; those without a readable time are skipped.
+ */
+export function checkSchedule(days: TimedDay[] = []): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = [];
+
+  days.forEach((day, dayIndex) => {
+    const timed = (day.activities || [])
+      .map((activity, activityIndex) => ({
+        activityIndex,
+        title: activity.title || 'the previous activity',
+        start: activity.startMinutes ?? parseTime(activity.time),
+        duration: activity.durationMinutes ?? parseDuration(activity.duration),
+      }))
+      .filter((activity): activity is typeof activity & { start: number } => activity.start !== null)
+      .sort((a, b) => a.start - b.start);
+
+    // The activity that ends last among those already checked
+    let latest: { title: string; end: number | null } | null = null;
+
+    timed.forEach((activity) => {
+      const end = activity.duration !== null ? activity.start + activity.duration : null;
+
+      if (latest?.end != null && activity.start < latest.end) {
+        issues.push({
+          dayIndex,
+          activityIndex: activity.activityIndex,
+          kind: 'overlap',
+          message: `Starts at ${formatMinutes(activity.start)}, before "${latest.title}" ends at ${formatMinutes(latest.end)}`,
+        });
+      } else if (latest?.end != null && activity.start - latest.end > GAP_MINUTES) {
+        issues.push({
+          dayIndex,
+          activityIndex: activity.activityIndex,
+          kind: 'gap',
+          message: `${formatLength(activity.start - latest.end)} of free time after "${latest.title}"`,
+        });
+      }
+
+      if (end !== null && end > MINUTES_PER_DAY) {
+        issues.push({
+          dayIndex,
+          activityIndex: activity.activityIndex,
+          kind: 'past-midnight',
+          message: `Runs past midnight (until ${formatMinutes(end)})`,
+        });
+      }
+
+      if (end === null) {
+        // Without a duration the end is unknown, so no gap is measured after this activity
+        latest = latest?.end != null && latest.end > activity.start ? latest : { title: activity.title, end: null };
+      } else if (!latest || latest.end === null || end > latest.end) {
+        latest = { title: activity.title, end };
+      }
+    });
+  });
+
+  return issues;
+}
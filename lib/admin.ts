@@ -0,0 +1,15 @@
+/**
+ * Admins are configured with ADMIN_EMAILS, a comma-separated list of account emails
+ */
+export function isAdmin(email?: string | null): boolean {
+  if (!email) {
+    return false;
+  }
+
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return admins.includes(email.toLowerCase());
+}
@@ -0,0 +1,285 @@
+import type { BookingType, IBooking, IBookingAttachment } from '@/models/Booking';
+import { formatTripDate, isCalendarDate } from '@/lib/tripDates';
+import { formatMinutes, parseDuration, parseTime } from '@/lib/activitySchedule';
+import { detectCurrency, formatINR, moneyToINR, normalizeCurrencyPreference, parseMoney } from '@/lib/currencyUtils';
+
+/**
+ * Helpers for confirmed bookings: validating what users enter, placing bookings
+ * on the days of an itinerary and finding scheduled activities that clash with them.
+ */
+
+export const BOOKING_TYPE_OPTIONS: { value: BookingType; label: string }[] = [
+  { value: 'flight', label: 'Flight' },
+  { value: 'stay', label: 'Stay' },
+  { value: 'train', label: 'Train' },
+  { value: 'restaurant', label: 'Restaurant' },
+  { value: 'other', label: 'Other' },
+];
+
+// Attachments are stored in the database, so they are kept small
+export const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Content-Disposition for serving an attachment inline. Header values must be Latin-1,
+ * so the name goes in an ASCII `filename` fallback plus a UTF-8 `filename*` (RFC 6266).
+ */
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/["\\]/g, '');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${fallback || 'attachment'}"; filename*=UTF-8''${encoded}`;
+}
+
+// How long a booking without an end time is assumed to take, in minutes
+const DEFAULT_MINUTES: Record<BookingType, number> = {
+  flight: 120,
+  stay: 0,
+  train: 120,
+  restaurant: 90,
+  other: 60,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+const DATETIME = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})$/;
+
+// What a user enters for a booking; an attachment of null removes the existing one
+export type BookingInput = Omit<IBooking, '_id' | 'itineraryId' | 'createdBy' | 'costMoney' | 'attachment' | 'createdAt' | 'updatedAt'>
+  & { attachment?: IBookingAttachment | null };
+
+// A booking as used on the client, where ids are strings
+type BookingLike = Pick<IBooking, 'type' | 'provider' | 'start' | 'end'> & { _id?: unknown };
+
+interface TimedActivity {
+  title?: string;
+  time?: string;
+  duration?: string;
+  startMinutes?: number;
+  durationMinutes?: number;
+}
+
+interface DatedDay {
+  date?: string;
+  activities?: TimedActivity[];
+}
+
+export interface BookingConflict {
+  bookingId: string;
+  dayIndex: number;
+  activityIndex: number;
+  message: string;
+}
+
+export function getBookingTypeLabel(type: BookingType): string {
+  return BOOKING_TYPE_OPTIONS.find((option) => option.value === type)?.label || 'Booking';
+}
+
+/**
+ * "yyyy-MM-ddTHH:mm" for a valid local date and time, otherwise null
+ */
+export function normalizeBookingTime(value: unknown): string | null {
+  const match = typeof value === 'string' ? DATETIME.exec(value.trim()) : null;
+
+  if (!match || !isCalendarDate(match[1]) || parseInt(match[2], 10) > 23 || parseInt(match[3], 10) > 59) {
+    return null;
+  }
+  return match[0];
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Reads an attachment sent as { filename, contentType, data } with base64 data
+ */
+function toAttachment(raw: any): { attachment?: IBookingAttachment; error?: string } {
+  if (!ATTACHMENT_TYPES.includes(raw?.contentType) || typeof raw?.data !== 'string') {
+    return { error: 'Attachments must be a PDF or an image' };
+  }
+
+  const data = Buffer.from(raw.data, 'base64');
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    return { error: `Attachments must be smaller than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB` };
+  }
+
+  return {
+    attachment: {
+      filename: toText(raw.filename) || 'attachment',
+      contentType: raw.contentType,
+      size: data.length,
+      data,
+    },
+  };
+}
+
+/**
+ * A cost typed by the user as a canonical INR string, keeping both ends of a range
+ * ("$20-30" becomes "₹1,660 - ₹2,490"). Costs that do not name a currency are in
+ * `currency`; costs without an amount are kept as they are.
+ */
+function toBookingCost(cost: string, currency: string): string {
+  const money = /\d/.test(cost) ? parseMoney(cost) : null;
+  if (!money) {
+    return cost;
+  }
+
+  const named = detectCurrency(cost) ? money.currency : currency;
+  const toINR = (amount: number) => formatINR(Math.round(moneyToINR({ amount, currency: named })));
+  return money.max !== undefined ? `${toINR(money.amount)} - ${toINR(money.max)}` : toINR(money.amount);
+}
+
+/**
+ * Builds a booking from a request body. The cost is converted to INR from `currency`
+ * (the user's home currency) unless it names one. An attachment of null removes it,
+ * and a missing attachment leaves it unchanged.
+ * Returns an error message instead when the booking is not valid.
+ */
+export function buildBooking(body: any): { booking?: BookingInput; error?: string } {
+  const type = BOOKING_TYPE_OPTIONS.find((option) => option.value === body?.type)?.value;
+  const provider = toText(body?.provider);
+  const start = normalizeBookingTime(body?.start);
+  const end = body?.end ? normalizeBookingTime(body.end) : undefined;
+
+  if (!type || !provider) {
+    return { error: 'Please provide the booking type and provider' };
+  }
+
+  if (!start || end === null) {
+    return { error: 'Please provide valid start and end times' };
+  }
+
+  if (end && end < start) {
+    return { error: 'A booking cannot end before it starts' };
+  }
+
+  const { currency } = normalizeCurrencyPreference({ currency: body?.currency });
+  const cost = toText(body?.cost);
+  const booking: BookingInput = {
+    type,
+    provider,
+    confirmationNumber: toText(body?.confirmationNumber),
+    start,
+    end,
+    location: toText(body?.location),
+    cost: cost ? toBookingCost(cost, currency) : undefined,
+  };
+
+  if (body?.attachment === null) {
+    booking.attachment = null;
+  } else if (body?.attachment) {
+    const { attachment, error } = toAttachment(body.attachment);
+    if (error) {
+      return { error };
+    }
+    booking.attachment = attachment;
+  }
+
+  return { booking };
+}
+
+/**
+ * Whether the booking takes place on the given "yyyy-MM-dd" date
+ */
+export function isBookingOnDate(booking: BookingLike, date: string | undefined): boolean {
+  if (!date || !isCalendarDate(date)) {
+    return false;
+  }
+  const startDate = booking.start.slice(0, 10);
+  const endDate = (booking.end || booking.start).slice(0, 10);
+  return startDate <= date && date <= endDate;
+}
+
+/**
+ * Formats the part of a booking that falls on the given date, e.g. "06:10 AM – 08:25 AM",
+ * "Check-in 02:00 PM" or "All day"
+ */
+export function describeBookingTime(booking: BookingLike, date: string): string {
+  const startsToday = booking.start.startsWith(date);
+  const endsToday = !!booking.end && booking.end.startsWith(date);
+  const start = formatMinutes(parseTime(booking.start.slice(11)) ?? 0);
+  const end = booking.end ? formatMinutes(parseTime(booking.end.slice(11)) ?? 0) : '';
+
+  if (booking.type === 'stay') {
+    if (startsToday) return `Check-in ${start}`;
+    if (endsToday) return `Check-out ${end}`;
+    return 'Staying overnight';
+  }
+  if (startsToday && endsToday) return `${start} – ${end}`;
+  if (startsToday) return booking.end ? `${start} – ${end} (next day)` : start;
+  return endsToday ? `Until ${end}` : 'All day';
+}
+
+/**
+ * Formats a booking's start and end, e.g. "6 November 2026, 06:10 AM – 08:25 AM";
+ * the end date is only repeated when it differs from the start date
+ */
+export function describeBookingDates(booking: BookingLike): string {
+  const date = (value: string) => formatTripDate(value.slice(0, 10), { weekday: false });
+  const time = (value: string) => formatMinutes(parseTime(value.slice(11)) ?? 0);
+  const start = `${date(booking.start)}, ${time(booking.start)}`;
+
+  if (!booking.end) {
+    return start;
+  }
+  return booking.end.slice(0, 10) === booking.start.slice(0, 10)
+    ? `${start} – ${time(booking.end)}`
+    : `${start} – ${date(booking.end)}, ${time(booking.end)}`;
+}
+
+/**
+ * Minutes of the given date that the booking occupies, or null if it does not occupy
+ * any. Stays are left out: travelers are out sightseeing while they have a room.
+ */
+function occupiedMinutes(booking: BookingLike, date: string): { start: number; end: number } | null {
+  if (booking.type === 'stay' || !isBookingOnDate(booking, date)) {
+    return null;
+  }
+
+  const startMinutes = parseTime(booking.start.slice(11)) ?? 0;
+  const start = booking.start.startsWith(date) ? startMinutes : 0;
+  const end = !booking.end
+    ? Math.min(startMinutes + DEFAULT_MINUTES[booking.type], MINUTES_PER_DAY)
+    : booking.end.startsWith(date) ? parseTime(booking.end.slice(11)) ?? 0 : MINUTES_PER_DAY;
+
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Reports scheduled activities that overlap a booking on a dated day. Activities
+ * without a readable time are skipped; those without a duration count as a moment.
+ */
+export function checkBookingConflicts(days: DatedDay[] = [], bookings: BookingLike[] = []): BookingConflict[] {
+  const conflicts: BookingConflict[] = [];
+
+  days.forEach((day, dayIndex) => {
+    bookings.forEach((booking) => {
+      const occupied = day.date ? occupiedMinutes(booking, day.date) : null;
+      if (!occupied) {
+        return;
+      }
+
+      (day.activities || []).forEach((activity, activityIndex) => {
+        const start = activity.startMinutes ?? parseTime(activity.time);
+        if (start === null) {
+          return;
+        }
+        const end = start + (activity.durationMinutes ?? parseDuration(activity.duration) ?? 0);
+
+        if (start < occupied.end && Math.max(end, start + 1) > occupied.start) {
+          conflicts.push({
+            bookingId: String(booking._id),
+            dayIndex,
+            activityIndex,
+            message: `Clashes with your ${getBookingTypeLabel(booking.type).toLowerCase()} booking "${booking.provider}" (${formatMinutes(occupied.start)} – ${formatMinutes(occupied.end)})`,
+          });
+        }
+      });
+    });
+  });
+
+  return conflicts;
+}
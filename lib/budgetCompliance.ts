@@ -0,0 +1,150 @@
+import { costParts, formatINR, moneyToINR, parseMoney } from '@/lib/currencyUtils';
+import { partySize } from '@/lib/travelerParty';
+import { IItinerary } from '@/models/Itinerary';
+
+/**
+ * Checks an itinerary's costs: parses every activity cost, recomputes the day and
+ * trip totals from them and compares those with the totals the model stated and
+ * with the trip budget. All amounts are in INR.
+ */
+
+type BudgetedItinerary = Pick<IItinerary, 'budget' | 'days' | 'summary' | 'party'>;
+
+export interface DayBudget {
+  dayIndex: number;
+  // Sum of the day's parsed activity costs
+  computed: number;
+  // The day's totalCost, if it could be parsed
+  stated: number | null;
+  // True when stated and computed disagree by more than the tolerance
+  mismatch: boolean;
+}
+
+export interface UnparsedCost {
+  dayIndex: number;
+  activityIndex: number;
+  cost: string;
+}
+
+export interface BudgetReport {
+  // Null when the trip budget could not be parsed
+  budget: number | null;
+  total: number;
+  statedTotal: number | null;
+  // How far the computed total is over budget; 0 when within budget
+  overBudgetBy: number;
+  days: DayBudget[];
+  unparsed: UnparsedCost[];
+}
+
+export interface CostedActivity {
+  dayIndex: number;
+  activityIndex: number;
+  title: string;
+  cost: number;
+}
+
+const PER_PERSON = /\b(per person|per head|each|pp)\b|\/\s*(person|head|pax)/i;
+
+// Totals within ₹100 or 5% of each other are treated as the same
+const TOLERANCE_INR = 100;
+const TOLERANCE_SHARE = 0.05;
+
+/**
+ * Parses a cost string to INR, or null if it has no amount. The amount is the one
+ * parseMoney() reads (ranges at their upper end, separate amounts added up, a stated
+ * total preferred), with per-person amounts multiplied by the party size, so the result
+ * is what the whole party may spend.
+ */
+export function parseCost(cost: string | undefined | null, travelers = 1): number | null {
+  const parts = costParts(cost);
+
+  if (parts.length === 0) {
+    const money = parseMoney(cost);
+    return money ? Math.round(moneyToINR(money)) : null;
+  }
+
+  return Math.round(parts.reduce((sum, { text, money }) => {
+    const amount = moneyToINR(money);
+    return sum + (PER_PERSON.test(text) ? amount * travelers : amount);
+  }, 0));
+}
+
+function totalsDisagree(stated: number, computed: number): boolean {
+  const difference = Math.abs(stated - computed);
+  return difference > TOLERANCE_INR && difference > computed * TOLERANCE_SHARE;
+}
+
+export function checkBudget(itinerary: BudgetedItinerary): BudgetReport {
+  const travelers = partySize(itinerary.party);
+  const unparsed: UnparsedCost[] = [];
+
+  const days = (itinerary.days || []).map((day, dayIndex) => {
+    const computed = (day.activities || []).reduce((sum, activity, activityIndex) => {
+      const cost = parseCost(activity.cost, travelers);
+      if (cost === null) {
+        unparsed.push({ dayIndex, activityIndex, cost: activity.cost || '' });
+        return sum;
+      }
+      return sum + cost;
+    }, 0);
+    const stated = parseCost(day.totalCost);
+
+    return {
+      dayIndex,
+      computed,
+      stated,
+      mismatch: stated !== null && totalsDisagree(stated, computed),
+    };
+  });
+
+  const total = days.reduce((sum, day) => sum + day.computed, 0);
+  const budget = parseCost(itinerary.budget);
+
+  return {
+    budget: budget || null,
+    total,
+    statedTotal: parseCost(itinerary.summary?.totalEstimatedCost),
+    overBudgetBy: budget ? Math.max(0, total - budget) : 0,
+    days,
+    unparsed,
+  };
+}
+
+/**
+ * True when the stated trip total or any day total disagrees with the activity costs
+ */
+export function hasTotalMismatch(report: BudgetReport): boolean {
+  return report.days.some((day) => day.mismatch)
+    || (report.statedTotal !== null && totalsDisagree(report.statedTotal, report.total));
+}
+
+/**
+ * Activities by parsed cost, most expensive first
+ */
+export function mostExpensiveActivities(itinerary: BudgetedItinerary, limit = 5): CostedActivity[] {
+  const travelers = partySize(itinerary.party);
+
+  return (itinerary.days || [])
+    .flatMap((day, dayIndex) => (day.activities || []).map((activity, activityIndex) => ({
+      dayIndex,
+      activityIndex,
+      title: activity.title,
+      cost: parseCost(activity.cost, travelers) || 0,
+    })))
+    .filter((activity) => activity.cost > 0)
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, limit);
+}
+
+/**
+ * Returns the days and summary with totalCost and totalEstimatedCost recomputed from the activities
+ */
+export function withComputedTotals<T extends BudgetedItinerary>(itinerary: T): Pick<T, 'days' | 'summary'> {
+  const report = checkBudget(itinerary);
+
+  return {
+    days: itinerary.days.map((day, dayIndex) => ({ ...day, totalCost: formatINR(report.days[dayIndex].computed) })),
+    summary: { ...itinerary.summary, totalEstimatedCost: formatINR(report.total) },
+  };
+}
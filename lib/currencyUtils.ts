@@ -1,66 +1,150 @@
 /**
  * Utility functions for currency conversion and formatting
+ *
+ * Costs are stored in INR (the canonical currency the model is asked for) and
+ * converted to the user's home currency only when they are displayed.
  */
 
+// INR per unit of each supported currency (approximate rates)
+// These are approximate rates - for production, use real-time exchange rates
+const INR_RATES: { [code: string]: number } = {
+  INR: 1,
+  USD: 83,      // 1 USD = 83 INR (approximate)
+  EUR: 90,      // 1 EUR = 90 INR (approximate)
+  GBP: 105,     // 1 GBP = 105 INR (approximate)
+  JPY: 0.56,    // 1 JPY = 0.56 INR (approximate)
+  AUD: 55,      // 1 AUD = 55 INR (approximate)
+  CAD: 61,      // 1 CAD = 61 INR (approximate)
+  SGD: 62,      // 1 SGD = 62 INR (approximate)
+  CHF: 93,      // 1 CHF = 93 INR (approximate)
+  CNY: 11.5,    // 1 CNY = 11.5 INR (approximate)
+  MXN: 4.8,     // 1 MXN = 4.8 INR (approximate)
+  BRL: 16.5,    // 1 BRL = 16.5 INR (approximate)
+};
+
+const CURRENCY_SYMBOLS: { [code: string]: string } = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  JPY: '¥',
+};
+
+// Symbols that end in another currency's symbol, so they are checked before it
+// ("A$50" is Australian, not US dollars); "US$" is left to the bare "$"
+const PREFIXED_SYMBOLS: { [code: string]: RegExp } = {
+  AUD: /(?<![A-Z])A\$/,
+  CAD: /(?<![A-Z])C\$/,
+  SGD: /(?<![A-Z])S\$/,
+  MXN: /(?<![A-Z])MX\$/,
+  BRL: /(?<![A-Z])R\$/,
+  CNY: /(?<![A-Z])CN¥/,
+};
+
+export const SUPPORTED_CURRENCIES = [
+  { code: 'INR', label: 'Indian Rupee (₹)' },
+  { code: 'USD', label: 'US Dollar ($)' },
+  { code: 'EUR', label: 'Euro (€)' },
+  { code: 'GBP', label: 'British Pound (£)' },
+  { code: 'JPY', label: 'Japanese Yen (¥)' },
+  { code: 'AUD', label: 'Australian Dollar (A$)' },
+  { code: 'CAD', label: 'Canadian Dollar (C$)' },
+  { code: 'SGD', label: 'Singapore Dollar (S$)' },
+  { code: 'CHF', label: 'Swiss Franc (CHF)' },
+  { code: 'CNY', label: 'Chinese Yuan (CN¥)' },
+  { code: 'MXN', label: 'Mexican Peso (MX$)' },
+  { code: 'BRL', label: 'Brazilian Real (R$)' },
+];
+
+// Locales control number formatting (separators, symbol position)
+export const LOCALE_OPTIONS = [
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+];
+
+export interface CurrencyPreference {
+  currency: string;
+  locale: string;
+}
+
+export const DEFAULT_CURRENCY_PREFERENCE: CurrencyPreference = { currency: 'INR', locale: 'en-IN' };
+
+/**
+ * Keeps only supported currencies and locales, falling back to the defaults
+ */
+export function normalizeCurrencyPreference(input: any): CurrencyPreference {
+  const currency = typeof input?.currency === 'string' ? input.currency.toUpperCase() : '';
+  const locale = typeof input?.locale === 'string' ? input.locale : '';
+
+  return {
+    currency: currency in INR_RATES ? currency : DEFAULT_CURRENCY_PREFERENCE.currency,
+    locale: LOCALE_OPTIONS.some((option) => option.value === locale) ? locale : DEFAULT_CURRENCY_PREFERENCE.locale,
+  };
+}
+
 /**
  * Converts a cost string to INR format
  * Handles various input formats: $100, 100 USD, ₹5000, 5000, etc.
  */
 export function convertToINR(costString: string): string {
   if (!costString) return '₹0';
-  
+
   // Extract numeric value
   const numericValue = parseFloat(costString.replace(/[^0-9.]/g, ''));
   if (isNaN(numericValue) || numericValue === 0) return '₹0';
-  
-  // Detect currency from the string
+
+  return formatINR(numericValue * getRateToINR(costString));
+}
+
+/**
+ * The currency a cost string is written in, or null if it does not say
+ */
+export function detectCurrency(costString: string): string | null {
   const upperCost = costString.toUpperCase();
-  let convertedValue = numericValue;
-  
-  // If already in INR, return as is
-  if (upperCost.includes('₹') || upperCost.includes('INR') || upperCost.includes('RS') || upperCost.includes('RUPEES')) {
-    return formatINR(numericValue);
-  }
-  
-  // Convert from other currencies to INR (approximate rates)
-  // These are approximate rates - for production, use real-time exchange rates
-  const exchangeRates: { [key: string]: number } = {
-    'USD': 83,      // 1 USD = 83 INR (approximate)
-    '$': 83,
-    'EUR': 90,      // 1 EUR = 90 INR (approximate)
-    '€': 90,
-    'GBP': 105,     // 1 GBP = 105 INR (approximate)
-    '£': 105,
-    'JPY': 0.56,    // 1 JPY = 0.56 INR (approximate)
-    '¥': 0.56,
-    'AUD': 55,      // 1 AUD = 55 INR (approximate)
-    'CAD': 61,      // 1 CAD = 61 INR (approximate)
-    'SGD': 62,      // 1 SGD = 62 INR (approximate)
-    'CHF': 93,      // 1 CHF = 93 INR (approximate)
-    'CNY': 11.5,    // 1 CNY = 11.5 INR (approximate)
-    'MXN': 4.8,     // 1 MXN = 4.8 INR (approximate)
-    'BRL': 16.5,    // 1 BRL = 16.5 INR (approximate)
-  };
-  
-  // Find matching currency
-  for (const [currency, rate] of Object.entries(exchangeRates)) {
-    if (upperCost.includes(currency)) {
-      convertedValue = numericValue * rate;
-      break;
-    }
+
+  if (upperCost.includes('₹') || upperCost.includes('INR') || /\bRS\b/.test(upperCost) || upperCost.includes('RUPEE')) {
+    return 'INR';
   }
-  
-  // If no currency detected, assume it's already in INR
-  return formatINR(convertedValue);
+
+  const currencies = Object.keys(INR_RATES);
+
+  return currencies.find((currency) => new RegExp(`(?<![A-Z])${currency}(?![A-Z])`).test(upperCost))
+    || currencies.find((currency) => PREFIXED_SYMBOLS[currency]?.test(upperCost))
+    || currencies.find((currency) => CURRENCY_SYMBOLS[currency] && upperCost.includes(CURRENCY_SYMBOLS[currency]))
+    || null;
+}
+
+/**
+ * Approximate rate from the currency mentioned in a cost string to INR.
+ * Strings without a recognised currency are assumed to be in INR already.
+ */
+export function getRateToINR(costString: string): number {
+  return INR_RATES[detectCurrency(costString) || 'INR'];
+}
+
+/**
+ * Converts an amount typed by the user to the canonical INR string; amounts that
+ * do not name a currency are taken to be in `currency` (e.g. their home currency).
+ * Ranges count at their upper end; input without an amount is returned as it is.
+ */
+export function toCanonicalINR(amount: string, currency = 'INR'): string {
+  const money = /\d/.test(amount) ? parseMoney(amount) : null;
+  if (!money) return amount;
+
+  return formatINR(Math.round(moneyToINR({ ...money, currency: detectCurrency(amount) ? money.currency : currency })));
 }
 
 /**
  * Formats a number as INR currency
  */
 export function formatINR(amount: number): string {
-  return `₹${amount.toLocaleString('en-IN', { 
+  return `₹${amount.toLocaleString('en-IN', {
     maximumFractionDigits: 0,
-    minimumFractionDigits: 0 
+    minimumFractionDigits: 0
   })}`;
 }
 
@@ -72,3 +156,165 @@ export function formatCostToINR(costString: string | undefined | null): string {
   return convertToINR(costString);
 }
 
+/**
+ * Formats an amount in INR in the preferred currency and locale
+ */
+export function formatMoney(amountInINR: number, preference: CurrencyPreference = DEFAULT_CURRENCY_PREFERENCE): string {
+  const rate = INR_RATES[preference.currency] || 1;
+
+  try {
+    return new Intl.NumberFormat(preference.locale, {
+      style: 'currency',
+      currency: preference.currency,
+      maximumFractionDigits: 0,
+      minimumFractionDigits: 0,
+    }).format(amountInINR / rate);
+  } catch {
+    return formatINR(amountInINR);
+  }
+}
+
+/**
+ * A structured amount: `amount` is the low end when `max` is set (a range).
+ * `currency` is the ISO code the amount is written in.
+ */
+export interface Money {
+  amount: number;
+  max?: number;
+  currency: string;
+}
+
+// A number with an optional magnitude, e.g. "4,150", "30k", "1.5 lakh", "2 cr"
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?)(?:\s*(k|lakhs?|lacs?|l|crores?|cr)\b)?`;
+const AMOUNT = new RegExp(NUMBER, 'gi');
+// e.g. "₹500 - ₹800", "500 to 800 INR", "50-80k"
+const RANGE = new RegExp(String.raw`${NUMBER}\s*(?:-|–|—|to)\s*[^\d\s]{0,3}\s*${NUMBER}`, 'i');
+const FREE = /\b(free|included|no cost|complimentary|nil)\b/i;
+// Between separate amounts, e.g. "Entry ₹50, guide ₹300" (thousands separators have no space after them)
+const SEPARATOR = /;|,\s+|\s\+\s|\b(?:and|plus)\b/i;
+// Notes in brackets with an amount, e.g. "(₹900 total)", "(₹1,000 per person)"
+const NOTE = /\(([^)]*\d[^)]*)\)/g;
+const TOTAL = /\btotal\b/i;
+
+const toNumber = (value: string) => parseFloat(value.replace(/,/g, ''));
+
+function scaleOf(magnitude: string | undefined): number {
+  const unit = (magnitude || '').toLowerCase();
+  if (unit === 'k') return 1000;
+  if (unit.startsWith('l')) return 100000;
+  if (unit.startsWith('cr')) return 10000000;
+  return 1;
+}
+
+// A single amount or range; strings without a recognised currency are taken as INR
+function parseAmount(costString: string): Money | null {
+  const amounts = Array.from(costString.matchAll(AMOUNT), (match) => toNumber(match[1]) * scaleOf(match[2]));
+  if (amounts.length === 0) {
+    return null;
+  }
+
+  const currency = detectCurrency(costString) || 'INR';
+  const range = RANGE.exec(costString);
+
+  if (range) {
+    const highScale = scaleOf(range[4]);
+    // "50-80k" means 50k to 80k, but "500 - 1k" does not mean 500k
+    const lowScale = range[2] || toNumber(range[1]) >= toNumber(range[3]) ? scaleOf(range[2]) : highScale;
+    const [low, high] = [toNumber(range[1]) * lowScale, toNumber(range[3]) * highScale].sort((a, b) => a - b);
+    return low === high ? { amount: low, currency } : { amount: low, max: high, currency };
+  }
+
+  return { amount: Math.max(...amounts), currency };
+}
+
+export interface CostPart {
+  // The part of the cost string the amount was read from
+  text: string;
+  money: Money;
+}
+
+/**
+ * Splits a cost string into the amounts it adds up to. An amount marked "total" wins
+ * over everything else; otherwise separate prices ("Entry ₹50, guide ₹300") are listed
+ * one by one, and bracketed amounts are taken as notes and ignored. Amounts that do
+ * not name a currency are in the one named elsewhere in the string.
+ */
+export function costParts(costString: string | undefined | null): CostPart[] {
+  if (!costString || !/\d/.test(costString)) return [];
+
+  const notes = Array.from(costString.matchAll(NOTE), (match) => match[1]);
+  const main = costString.replace(NOTE, ' ');
+  const segments = main.split(SEPARATOR).filter((segment) => /\d/.test(segment));
+  const currency = detectCurrency(costString) || 'INR';
+
+  const toPart = (text: string): CostPart[] => {
+    const money = parseAmount(text);
+    return money ? [{ text, money: detectCurrency(text) ? money : { ...money, currency } }] : [];
+  };
+
+  const total = [...segments, ...notes].find((segment) => TOTAL.test(segment));
+  if (total) {
+    return toPart(total);
+  }
+
+  // Several amounts only add up when they are prices; otherwise the numbers may be
+  // counts or times, so the largest is taken
+  const prices = segments.filter((segment) => detectCurrency(segment));
+  if (segments.length > 1 && prices.length > 0) {
+    return prices.flatMap(toPart);
+  }
+
+  return toPart(segments.length > 0 ? main : costString);
+}
+
+/**
+ * Parses a cost string ("₹4,150", "$20-30", "1.5 lakh", "Free") into a Money value, or null
+ * if it has no amount. Strings without a recognised currency are taken as INR. Separate
+ * amounts are added up as described for costParts(), in INR when their currencies differ.
+ */
+export function parseMoney(costString: string | undefined | null): Money | null {
+  if (!costString || !costString.trim()) return null;
+
+  const parts = costParts(costString).map((part) => part.money);
+  if (parts.length === 0) {
+    return FREE.test(costString) ? { amount: 0, currency: 'INR' } : null;
+  }
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  const currency = parts.every((money) => money.currency === parts[0].currency) ? parts[0].currency : 'INR';
+  const rate = (money: Money) => (currency === 'INR' ? INR_RATES[money.currency] || 1 : 1);
+  const amount = parts.reduce((sum, money) => sum + money.amount * rate(money), 0);
+  const max = parts.reduce((sum, money) => sum + (money.max ?? money.amount) * rate(money), 0);
+  return max === amount ? { amount, currency } : { amount, max, currency };
+}
+
+/**
+ * A Money value in INR; ranges count at their upper end
+ */
+export function moneyToINR(money: Money): number {
+  return (money.max ?? money.amount) * (INR_RATES[money.currency] || 1);
+}
+
+/**
+ * Formats a Money value in the preferred currency, keeping both ends of a range
+ */
+export function formatMoneyValue(money: Money, preference: CurrencyPreference = DEFAULT_CURRENCY_PREFERENCE): string {
+  const rate = INR_RATES[money.currency] || 1;
+
+  return money.max !== undefined && money.max !== null
+    ? `${formatMoney(money.amount * rate, preference)} – ${formatMoney(money.max * rate, preference)}`
+    : formatMoney(money.amount * rate, preference);
+}
+
+/**
+ * Formats a stored cost string in the preferred currency. Ranges keep both ends;
+ * strings without an amount (e.g. "Free") are shown as they are.
+ */
+export function formatCost(costString: string | undefined | null, preference: CurrencyPreference = DEFAULT_CURRENCY_PREFERENCE): string {
+  if (!costString) return formatMoney(0, preference);
+
+  const money = /\d/.test(costString) ? parseMoney(costString) : null;
+  return money ? formatMoneyValue(money, preference) : costString;
+}
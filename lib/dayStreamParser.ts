@@ -0,0 +1,72 @@
+/**
+ * Incremental parser that picks complete day objects out of a streamed
+ * itinerary JSON response.
+ *
+ * Text is pushed in arbitrary chunks; as soon as an object inside the
+ * top-level "days" array is closed it is parsed and passed to onDay.
+ */
+export function createDayStreamParser(onDay: (day: unknown, index: number) => void) {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKey = '';
+  let daysDepth = -1;
+  let dayStart = -1;
+  let emitted = 0;
+
+  const push = (chunk: string) => {
+    buffer += chunk;
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          // Remember keys of the top-level object so we can spot "days"
+          if (depth === 1) {
+            lastKey = buffer.slice(stringStart + 1, position);
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === '{' || char === '[') {
+        depth++;
+        if (char === '[' && depth === 2 && lastKey === 'days' && daysDepth === -1) {
+          daysDepth = depth;
+        } else if (char === '{' && daysDepth !== -1 && depth === daysDepth + 1) {
+          dayStart = position;
+        }
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && dayStart !== -1 && depth === daysDepth + 1) {
+          const text = buffer.slice(dayStart, position + 1);
+          dayStart = -1;
+          try {
+            onDay(JSON.parse(text), emitted);
+            emitted++;
+          } catch (e) {
+            // Malformed day; the full response is validated (and repaired) once the stream ends
+          }
+        } else if (char === ']' && depth === daysDepth) {
+          daysDepth = -2; // days array finished, ignore any later arrays
+        }
+        depth--;
+      } else if (depth === 1 && char === ',') {
+        lastKey = '';
+      }
+    }
+  };
+
+  return { push, getText: () => buffer };
+}
@@ -0,0 +1,119 @@
+import type { IExpense } from '@/models/Expense';
+import { moneyToINR } from '@/lib/currencyUtils';
+
+/**
+ * Market exchange rates, for server code only. Current rates come from exchangerate-api.com;
+ * rates for a past date are the ECB reference rates from frankfurter.app, which uses the
+ * last business day on or before the date. Past rates never change, so they are cached.
+ */
+
+// Rate services that take longer than this are treated as unavailable
+const REQUEST_TIMEOUT_MS = 5000;
+// Historical rates kept in memory; the oldest are dropped first
+const MAX_CACHED_RATES = 500;
+
+export interface ExchangeRate {
+  rate: number;
+  // "yyyy-MM-dd" the rate applies to
+  date: string;
+}
+
+export class UnsupportedCurrencyError extends Error {
+  constructor(currency: string) {
+    super(`Currency ${currency} not found in exchange rates`);
+    this.name = 'UnsupportedCurrencyError';
+  }
+}
+
+const historicalRates = new Map<string, ExchangeRate>();
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function fetchLatestRate(from: string, to: string): Promise<ExchangeRate> {
+  const response = await fetch(`https://api.exchangerate-api.com/v4/latest/${from}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch exchange rates');
+  }
+
+  const data = await response.json();
+
+  if (!data.rates || !data.rates[to]) {
+    throw new UnsupportedCurrencyError(to);
+  }
+
+  return { rate: data.rates[to], date: data.date || today() };
+}
+
+async function fetchHistoricalRate(from: string, to: string, date: string): Promise<ExchangeRate> {
+  const key = `${from}:${to}:${date}`;
+  const cached = historicalRates.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(`https://api.frankfurter.app/${date}?from=${from}&to=${to}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (response.status === 404 || response.status === 422) {
+    throw new UnsupportedCurrencyError(from);
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch exchange rates');
+  }
+
+  const data = await response.json();
+
+  if (!data.rates || !data.rates[to]) {
+    throw new UnsupportedCurrencyError(to);
+  }
+
+  const rate = { rate: data.rates[to], date: data.date || date };
+  historicalRates.set(key, rate);
+  if (historicalRates.size > MAX_CACHED_RATES) {
+    historicalRates.delete(historicalRates.keys().next().value!);
+  }
+  return rate;
+}
+
+/**
+ * The rate from one currency to another, at the given "yyyy-MM-dd" date or the latest
+ * rate when the date is missing, today or in the future
+ */
+export async function getExchangeRate(from: string, to: string, date?: string | null): Promise<ExchangeRate> {
+  const fromCurrency = from.toUpperCase();
+  const toCurrency = to.toUpperCase();
+
+  if (fromCurrency === toCurrency) {
+    return { rate: 1, date: date || today() };
+  }
+
+  return date && date < today()
+    ? fetchHistoricalRate(fromCurrency, toCurrency, date)
+    : fetchLatestRate(fromCurrency, toCurrency);
+}
+
+/**
+ * Converts an amount to INR at the market rate of the given date. Falls back to the
+ * approximate built-in rate (and no rateDate) when the rate service is unavailable.
+ */
+export async function convertExpense(amount: number, currency: string, date: string): Promise<Pick<IExpense, 'amountINR' | 'rate' | 'rateDate'>> {
+  let rate: number;
+  let rateDate: string | undefined;
+
+  try {
+    ({ rate, date: rateDate } = await getExchangeRate(currency, 'INR', date));
+  } catch (error) {
+    console.error(`Failed to fetch the ${currency} rate for ${date}, using the approximate rate:`, error);
+    rate = moneyToINR({ amount: 1, currency });
+    rateDate = undefined;
+  }
+
+  return { amountINR: Math.round(amount * rate * 100) / 100, rate, rateDate };
+}
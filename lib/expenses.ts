@@ -0,0 +1,158 @@
+import type { ExpenseCategory, IExpense } from '@/models/Expense';
+import type { IItinerary } from '@/models/Itinerary';
+import { parseCost } from '@/lib/budgetCompliance';
+import { partySize } from '@/lib/travelerParty';
+import { isCalendarDate, normalizeStartDate } from '@/lib/tripDates';
+import { SUPPORTED_CURRENCIES } from '@/lib/currencyUtils';
+
+/**
+ * Actual trip expenses: validating what users log and comparing the actual spend
+ * with the itinerary's estimated costs per day and per category. Amounts are
+ * converted to INR on the server by convertExpense in lib/exchangeRates.ts.
+ */
+
+export const EXPENSE_CATEGORY_OPTIONS: { value: ExpenseCategory; label: string }[] = [
+  { value: 'food', label: 'Food & Drink' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'accommodation', label: 'Accommodation' },
+  { value: 'activities', label: 'Activities & Tickets' },
+  { value: 'shopping', label: 'Shopping' },
+  { value: 'other', label: 'Other' },
+];
+
+// Activity categories from the model, grouped into expense categories for the estimates;
+// anything not listed counts as an activity
+const ESTIMATE_CATEGORIES: { [activityCategory: string]: ExpenseCategory } = {
+  food: 'food',
+  dining: 'food',
+  restaurant: 'food',
+  transfer: 'transport',
+  transport: 'transport',
+  accommodation: 'accommodation',
+  hotel: 'accommodation',
+  shopping: 'shopping',
+};
+
+export type ExpenseInput = Pick<IExpense, 'amount' | 'currency' | 'date' | 'category' | 'dayIndex' | 'activityIndex' | 'description'>
+  & { paidBy: string };
+
+type ExpenseItinerary = Pick<IItinerary, 'userId' | 'collaborators' | 'days'>;
+type SpendItinerary = Pick<IItinerary, 'days' | 'party'>;
+
+export interface SpendComparison {
+  // Both in INR
+  estimated: number;
+  actual: number;
+}
+
+export interface ExpenseSummary extends SpendComparison {
+  days: (SpendComparison & { dayIndex: number })[];
+  categories: (SpendComparison & { category: ExpenseCategory })[];
+}
+
+export function getExpenseCategoryLabel(category: ExpenseCategory): string {
+  return EXPENSE_CATEGORY_OPTIONS.find((option) => option.value === category)?.label || 'Other';
+}
+
+export function toExpenseCategory(activityCategory: string | undefined): ExpenseCategory {
+  return ESTIMATE_CATEGORIES[(activityCategory || '').toLowerCase()] || 'activities';
+}
+
+// Ids of the people on the trip, whether or not they have been populated
+function memberIds(itinerary: ExpenseItinerary): string[] {
+  return [itinerary.userId, ...(itinerary.collaborators || [])]
+    .map((member: any) => String(member?._id || member));
+}
+
+/**
+ * Builds an expense from a request body for the given itinerary. The date defaults to
+ * the day's calendar date (or today for undated trips) and the payer to `userId`.
+ * Returns an error message instead when the expense is not valid.
+ */
+export function buildExpense(body: any, itinerary: ExpenseItinerary, userId: string): { expense?: ExpenseInput; error?: string } {
+  const amount = parseFloat(body?.amount);
+  const currency = String(body?.currency || 'INR').toUpperCase();
+  const category = EXPENSE_CATEGORY_OPTIONS.find((option) => option.value === body?.category)?.value;
+  const dayIndex = Number(body?.dayIndex);
+  const day = Number.isInteger(dayIndex) ? itinerary.days?.[dayIndex] : undefined;
+  const hasActivity = body?.activityIndex !== undefined && body?.activityIndex !== null && body?.activityIndex !== '';
+  const activityIndex = hasActivity ? Number(body.activityIndex) : undefined;
+  const paidBy = body?.paidBy ? String(body.paidBy) : userId;
+  const date = body?.date
+    ? normalizeStartDate(body.date)
+    : isCalendarDate(day?.date) ? day!.date : new Date().toISOString().slice(0, 10);
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'Please provide an amount greater than zero' };
+  }
+
+  if (!SUPPORTED_CURRENCIES.some((option) => option.code === currency)) {
+    return { error: `Unsupported currency: ${currency}` };
+  }
+
+  if (!category) {
+    return { error: 'Please choose a category' };
+  }
+
+  if (!day) {
+    return { error: 'Please choose a day of the trip' };
+  }
+
+  if (activityIndex !== undefined && !day.activities?.[activityIndex]) {
+    return { error: 'Please choose an activity from that day' };
+  }
+
+  if (!date) {
+    return { error: 'Please provide a valid date' };
+  }
+
+  if (!memberIds(itinerary).includes(paidBy)) {
+    return { error: 'The payer must be the owner or a collaborator' };
+  }
+
+  return {
+    expense: {
+      amount,
+      currency,
+      date,
+      category,
+      dayIndex,
+      activityIndex,
+      description: typeof body?.description === 'string' && body.description.trim() ? body.description.trim() : undefined,
+      paidBy,
+    },
+  };
+}
+
+/**
+ * Estimated (from activity costs) and actual (from expenses) spend in INR,
+ * for the whole trip, per day and per category
+ */
+export function summarizeExpenses(itinerary: SpendItinerary, expenses: Pick<IExpense, 'amountINR' | 'category' | 'dayIndex'>[]): ExpenseSummary {
+  const travelers = partySize(itinerary.party);
+  const days = (itinerary.days || []).map((_, dayIndex) => ({ dayIndex, estimated: 0, actual: 0 }));
+  const categories = EXPENSE_CATEGORY_OPTIONS.map((option) => ({ category: option.value, estimated: 0, actual: 0 }));
+  const byCategory = (category: ExpenseCategory) => categories.find((entry) => entry.category === category)!;
+
+  (itinerary.days || []).forEach((day, dayIndex) => {
+    (day.activities || []).forEach((activity) => {
+      const cost = parseCost(activity.cost, travelers) || 0;
+      days[dayIndex].estimated += cost;
+      byCategory(toExpenseCategory(activity.category)).estimated += cost;
+    });
+  });
+
+  expenses.forEach((expense) => {
+    if (days[expense.dayIndex]) {
+      days[expense.dayIndex].actual += expense.amountINR;
+    }
+    byCategory(expense.category).actual += expense.amountINR;
+  });
+
+  return {
+    estimated: days.reduce((total, day) => total + day.estimated, 0),
+    actual: expenses.reduce((total, expense) => total + expense.amountINR, 0),
+    days,
+    categories: categories.filter((entry) => entry.estimated > 0 || entry.actual > 0),
+  };
+}
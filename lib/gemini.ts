@@ -1,62 +1,134 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  ConversationTurn,
+  GenerationTask,
+  getProvider,
+  ItineraryProvider,
+  ModelRequest,
+  ModelResponse,
+  TripRequest,
+} from '@/lib/providers';
+import { createDayStreamParser } from '@/lib/dayStreamParser';
+import { IActivity, IDay, IGenerationProvenance, ILeg, ITravelerParty } from '@/models/Itinerary';
+import { PlannedDay, planLegDays } from '@/lib/tripLegs';
+import { getTripDays, getWeekday, isCalendarDate } from '@/lib/tripDates';
+import { describeParty, PACE_OPTIONS, partySize } from '@/lib/travelerParty';
+import { hasConstraints } from '@/lib/tripConstraints';
+import { getPromptTemplate, PromptTemplate } from '@/lib/promptTemplates';
+import { recordUsage } from '@/lib/usageLedger';
+import { mostExpensiveActivities } from '@/lib/budgetCompliance';
+import { formatINR, formatMoney, moneyToINR, parseMoney } from '@/lib/currencyUtils';
+import {
+  GeneratedItinerary,
+  ItineraryValidationError,
+  ValidationIssue,
+  validateActivity,
+  validateDay,
+  validateItinerary,
+  validateRefinement,
+} from '@/lib/itinerarySchema';
 
-const API_KEY = process.env.GEMINI_API_KEY!;
+// How many times invalid output is sent back to the model for repair before giving up
+const MAX_REPAIR_ATTEMPTS = parseInt(process.env.ITINERARY_REPAIR_ATTEMPTS || '2', 10);
 
-if (!API_KEY) {
-  const isVercel = process.env.VERCEL === '1';
-  const errorMessage = isVercel
-    ? 'GEMINI_API_KEY is not set. Please add it in your Vercel project settings: Settings → Environment Variables → Add GEMINI_API_KEY'
-    : 'Please define the GEMINI_API_KEY environment variable inside .env.local';
-  throw new Error(errorMessage);
+function describeLegPlan(legs: ILeg[]): string {
+  const legList = legs.map((leg, index) => `${index + 1}. ${leg.city} - ${leg.nights} night${leg.nights > 1 ? 's' : ''}`).join('\n');
+  const dayList = planLegDays(legs)
+    .map((planned) => planned.isTransfer
+      ? `Day ${planned.day}: transfer day from ${planned.from} to ${planned.city} (leg ${planned.leg})`
+      : `Day ${planned.day}: ${planned.city} (leg ${planned.leg})`)
+    .join('\n');
+
+  return `This is a multi-city trip with these legs, in order:
+${legList}
+
+Follow this day plan exactly:
+${dayList}
+
+On transfer days, plan the journey between the cities (recommended mode of transport, departure time, travel duration and cost) as the first activity with category "transfer", then lighter activities after arrival.
+Every day must include "leg" (the leg number above, starting at 0) and "isTransfer" (true only on transfer days).`;
 }
 
-const genAI = new GoogleGenerativeAI(API_KEY);
+function describeTripDates(startDate: string, days: number): string {
+  const dayList = getTripDays(startDate, days)
+    .map((tripDay, index) => `Day ${index + 1}: ${tripDay.weekday} ${tripDay.date}`)
+    .join('\n');
 
-export async function generateItinerary(
-  destination: string,
-  days: number,
-  budget: string,
-  interests: string[]
-): Promise<string> {
-  // Use available models based on the API - prioritize newer, stable models
-  // Based on your available models: gemini-2.5-flash, gemini-2.5-pro, gemini-2.0-flash, etc.
-  // Note: Model names should NOT include "models/" prefix for the GoogleGenerativeAI library
-  let model;
-  const modelsToTry = [
-    'gemini-2.5-flash',           // Fast and efficient (recommended)
-    'gemini-flash-latest',        // Latest flash version
-    'gemini-2.5-pro',             // More capable version
-    'gemini-pro-latest',          // Latest pro version
-    'gemini-2.0-flash',           // Alternative flash version
-    'gemini-2.0-flash-001',       // Stable flash version
-  ];
-
-  let lastError: any = null;
-  for (const modelName of modelsToTry) {
-    try {
-      model = genAI.getGenerativeModel({ model: modelName });
-      console.log(`Successfully initialized model: ${modelName}`);
-      break; // Successfully got a model, exit loop
-    } catch (e: any) {
-      console.log(`${modelName} failed: ${e.message || 'Unknown error'}`);
-      lastError = e;
-      continue;
+  return `The trip runs on these dates:
+${dayList}
+
+Plan around the actual dates: account for weekends, weekly closures of attractions, markets that only run on certain days, and public holidays or festivals at the destination. Set each day's "date" to its date above in yyyy-MM-dd format.`;
+}
+
+/**
+ * Describes who is travelling, their pace and mobility needs (empty for a default solo trip)
+ */
+function describeTravelers({ party, pace, mobility, constraints }: Pick<TripRequest, 'party' | 'pace' | 'mobility' | 'constraints'>): string {
+  const lines: string[] = [];
+
+  if (party && partySize(party) > 1) {
+    lines.push(`Travelling party: ${describeParty(party)} (${partySize(party)} travelers). All costs must be totals for the whole party, including child and senior discounts where they apply.`);
+    if (party.childAges.length > 0) {
+      lines.push('Choose child-friendly activities and restaurants, and allow for naps and early evenings for young children.');
     }
   }
+  const paceOption = PACE_OPTIONS.find((option) => option.value === pace);
+  if (paceOption) {
+    lines.push(`Pace: ${paceOption.label.toLowerCase()} (${paceOption.description}).`);
+  }
+  if (mobility && mobility.length > 0) {
+    lines.push(`Mobility constraints: ${mobility.join(', ')}. Only suggest accessible venues and transport, and mention accessibility in the descriptions.`);
+  }
+  if (constraints && hasConstraints(constraints)) {
+    const requirements = [
+      constraints.dietary.length > 0 ? `- Dietary: ${constraints.dietary.join(', ')}` : '',
+      constraints.accessibility.length > 0 ? `- Accessibility: ${constraints.accessibility.join(', ')}` : '',
+      constraints.religious.length > 0 ? `- Religious: ${constraints.religious.join(', ')}` : '',
+      constraints.notes ? `- Other: ${constraints.notes}` : '',
+    ].filter(Boolean).join('\n');
+    lines.push(`The travelers have these strict requirements. Every activity, restaurant and food experience must respect them; never suggest anything that conflicts with them, and say in the description how a place caters for them where relevant:\n${requirements}`);
+  }
 
-  // If all models failed, throw an error with details
-  if (!model) {
-    console.error('All model attempts failed. Last error:', lastError?.message);
-    throw new Error('No available Gemini model found. Please check your API key and available models. Last error: ' + (lastError?.message || 'Unknown'));
+  return lines.join('\n');
+}
+
+/**
+ * Tells the model which currency the traveler thinks in; costs themselves stay in INR
+ */
+function describeHomeCurrency(trip: TripRequest): string {
+  if (!trip.homeCurrency || trip.homeCurrency === 'INR') {
+    return '';
   }
 
+  const budgetMoney = parseMoney(trip.budget);
+  const approximate = !budgetMoney ? '' : ` (the budget is about ${formatMoney(moneyToINR(budgetMoney), { currency: trip.homeCurrency, locale: 'en-US' })})`;
+
+  return `The traveler's home currency is ${trip.homeCurrency}${approximate}. Still give every cost in INR as instructed below; costs are converted for the traveler automatically. Include a tip on paying in the destination for a visitor who uses ${trip.homeCurrency} (cards, cash, currency exchange).`;
+}
+
+export function buildItineraryPrompt(trip: TripRequest, template: PromptTemplate = getPromptTemplate()): string {
+  const { destination, days, budget, interests, legs, startDate } = trip;
   const interestsText = interests.length > 0 ? interests.join(', ') : 'general sightseeing';
   
   const interestsArray = interests.length > 0 ? interests.map(i => `"${i}"`).join(', ') : '"general sightseeing"';
+
+  const isMultiCity = !!legs && legs.length > 1;
+
+  // Optional sections describing the trip in more detail
+  const tripDetails = [
+    describeTravelers(trip),
+    isMultiCity ? describeLegPlan(legs) : '',
+    startDate ? describeTripDates(startDate, days) : '',
+    describeHomeCurrency(trip),
+  ].filter(Boolean).join('\n\n');
+
+  // Optional per-day fields added to the JSON structure
+  const dayExtraFields = [
+    isMultiCity ? '"leg": 0,\n      "isTransfer": false,' : '',
+  ].filter(Boolean).map((field) => `\n      ${field}`).join('');
   
   const prompt = `Create a detailed ${days}-day travel itinerary for ${destination} with a budget of ${budget}. 
 The traveler is interested in: ${interestsText}.
-
+${tripDetails ? `\n${tripDetails}\n` : ''}
 IMPORTANT: Return ONLY valid JSON. No markdown, no explanations, no code blocks. Just pure JSON.
 
 Format the itinerary as a JSON object with this exact structure:
@@ -68,7 +140,7 @@ Format the itinerary as a JSON object with this exact structure:
   "days": [
     {
       "day": 1,
-      "date": "Day 1",
+      "date": "${startDate || 'Day 1'}",${dayExtraFields}
       "activities": [
         {
           "time": "09:00 AM",
@@ -93,78 +165,529 @@ Format the itinerary as a JSON object with this exact structure:
 
 IMPORTANT: All costs must be in Indian Rupees (INR) using the ₹ symbol. Format costs as ₹X,XXX (e.g., ₹5,000, ₹12,500). Convert all costs to INR based on current exchange rates.
 
-Make the itinerary detailed, practical, and well-organized. Include specific times, locations, descriptions, durations, and costs for each activity. Ensure activities are realistic and geographically logical.`;
+${template.instructions}`;
+
+  return prompt;
+}
+
+/**
+ * Strips markdown code fences and surrounding prose, then parses the JSON object in a model response
+ */
+export function extractJson(raw: string): unknown {
+  // Clean up the response - remove markdown code blocks if present
+  let text = raw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  // If response doesn't start with {, try to find JSON object
+  if (!text.startsWith('{')) {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new SyntaxError('No JSON object found in response: ' + text.substring(0, 200));
+    }
+    text = jsonMatch[0];
+    console.log('Extracted JSON from response');
+  }
+
+  return JSON.parse(text);
+}
+
+/**
+ * Summarises the other days of an itinerary so that regenerated content does not repeat them
+ */
+function describeOtherDays(itinerary: GeneratedItinerary, excludeDayIndex: number): string {
+  return itinerary.days
+    .map((day, index) => index === excludeDayIndex
+      ? null
+      : `Day ${day.day || index + 1}: ${(day.activities || []).map((activity) => activity.title).join('; ')}`)
+    .filter(Boolean)
+    .join('\n') || 'None';
+}
+
+function withNewline(text: string): string {
+  return text ? `${text}\n` : '';
+}
+
+function plannedDay(itinerary: GeneratedItinerary, dayIndex: number): PlannedDay | undefined {
+  return itinerary.legs && itinerary.legs.length > 1 ? planLegDays(itinerary.legs)[dayIndex] : undefined;
+}
+
+export function buildDayPrompt(itinerary: GeneratedItinerary, dayIndex: number, instructions?: string): string {
+  const day = itinerary.days[dayIndex];
+  const planned = plannedDay(itinerary, dayIndex);
+  const legNote = planned
+    ? planned.isTransfer
+      ? `\nThis is the transfer day from ${planned.from} to ${planned.city}: start with the journey (category "transfer"), then lighter activities in ${planned.city}. Keep "leg": ${planned.leg} and "isTransfer": true.\n`
+      : `\nThis day is spent in ${planned.city}. Keep "leg": ${planned.leg} and "isTransfer": false.\n`
+    : '';
+  const dateNote = day && isCalendarDate(day.date)
+    ? `\nThis day falls on ${getWeekday(day.date)} ${day.date}; make sure the places you suggest are open then.\n`
+    : '';
+
+  return `You are revising one day of a ${itinerary.totalDays}-day travel itinerary for ${itinerary.destination} with a total budget of ${itinerary.budget}.
+The traveler is interested in: ${itinerary.interests.join(', ') || 'general sightseeing'}.
+${withNewline(describeTravelers(itinerary))}
+Other days in the itinerary (do NOT repeat these activities):
+${describeOtherDays(itinerary, dayIndex)}
+
+The current plan for Day ${dayIndex + 1}, which should be replaced:
+${JSON.stringify(day)}
+${legNote}${dateNote}
+${instructions ? `The traveler asked for these changes: ${instructions}\n\n` : ''}IMPORTANT: Return ONLY valid JSON for the new day. No markdown, no explanations, no code blocks.
+
+Use this exact structure:
+{
+  "day": ${dayIndex + 1},
+  "date": "${day?.date || `Day ${dayIndex + 1}`}",
+  "activities": [
+    {
+      "time": "09:00 AM",
+      "title": "Activity name",
+      "description": "Detailed description",
+      "location": "Location name",
+      "duration": "2 hours",
+      "cost": "₹4,150",
+      "category": "sightseeing"
+    }
+  ],
+  "totalCost": "₹12,450",
+  "notes": "Day notes and tips"
+}
+
+IMPORTANT: All costs must be in Indian Rupees (INR) using the ₹ symbol. Keep the day within a fair share of the total budget.`;
+}
+
+export function buildActivityPrompt(
+  itinerary: GeneratedItinerary,
+  dayIndex: number,
+  activityIndex: number,
+  instructions?: string
+): string {
+  const day = itinerary.days[dayIndex];
+  const activity = day.activities[activityIndex];
+  const sameDay = day.activities
+    .filter((_, index) => index !== activityIndex)
+    .map((other) => `${other.time} ${other.title}`)
+    .join('; ') || 'None';
+
+  return `You are replacing one activity in a ${itinerary.totalDays}-day travel itinerary for ${itinerary.destination} with a total budget of ${itinerary.budget}.
+The traveler is interested in: ${itinerary.interests.join(', ') || 'general sightseeing'}.
+${withNewline(describeTravelers(itinerary))}
+Other activities on Day ${dayIndex + 1}: ${sameDay}
+
+Other days in the itinerary (do NOT repeat these activities):
+${describeOtherDays(itinerary, dayIndex)}
+
+The activity to replace:
+${JSON.stringify(activity)}
+
+${instructions ? `The traveler asked for these changes: ${instructions}\n\n` : ''}The new activity should fit the same time slot (${activity.time}, about ${activity.duration || 'the same duration'}) and be geographically sensible for the rest of the day.
+
+IMPORTANT: Return ONLY valid JSON for the new activity. No markdown, no explanations, no code blocks.
+
+Use this exact structure:
+{
+  "time": "${activity.time}",
+  "title": "Activity name",
+  "description": "Detailed description",
+  "location": "Location name",
+  "duration": "2 hours",
+  "cost": "₹4,150",
+  "category": "sightseeing"
+}
+
+IMPORTANT: All costs must be in Indian Rupees (INR) using the ₹ symbol.`;
+}
+
+export function buildBudgetPrompt(itinerary: GeneratedItinerary, budget: number, overBudgetBy: number): string {
+  const expensive = mostExpensiveActivities(itinerary, 8)
+    .map((activity) => `- Day ${activity.dayIndex + 1}: ${activity.title} (${formatINR(activity.cost)})`)
+    .join('\n');
+
+  return `You are adjusting a ${itinerary.totalDays}-day travel itinerary for ${itinerary.destination} so that it fits the traveler's budget of ${formatINR(budget)}.
+${withNewline(describeTravelers(itinerary))}
+The activity costs currently add up to ${formatINR(budget + overBudgetBy)}, which is ${formatINR(overBudgetBy)} over budget.
+
+The most expensive activities are:
+${expensive || 'None'}
+
+Current itinerary:
+${JSON.stringify(itinerary)}
+
+Replace expensive activities with cheaper alternatives of the same kind, in the same time slot and area (e.g. a street-food lunch instead of a fine-dining one, a free viewpoint instead of a paid tour), until the activity costs add up to less than ${formatINR(budget)}. Change as few activities as possible and keep every other activity exactly as it is. Keep the same number of days, the same "day" numbers and the same dates. Recompute each day's "totalCost" as the sum of its activity costs and "summary.totalEstimatedCost" as the sum of the day totals.
+
+IMPORTANT: Return ONLY valid JSON for the full updated itinerary, in the same structure as the current itinerary. No markdown, no explanations, no code blocks.
+
+IMPORTANT: All costs must be in Indian Rupees (INR) using the ₹ symbol, one amount per activity (no ranges).`;
+}
+
+export function buildAdaptPrompt(itinerary: GeneratedItinerary, templateParty?: ITravelerParty): string {
+  const plannedFor = templateParty
+    ? `${describeParty(templateParty)} (${partySize(templateParty)} travelers)`
+    : 'a different group';
+  const dates = itinerary.startDate ? describeTripDates(itinerary.startDate, itinerary.days.length) : '';
+
+  return `You are adapting a saved ${itinerary.totalDays}-day travel itinerary for ${itinerary.destination} (budget ${itinerary.budget}) to a new trip.
+The plan was originally made for ${plannedFor}.
+${withNewline(describeTravelers(itinerary))}${withNewline(dates)}
+Current itinerary:
+${JSON.stringify(itinerary)}
+
+Keep the overall plan, the same number of days and the same "day" numbers. Only change what the new trip needs: rescale every cost to the new party size, replace activities that do not suit the new travelers or the new dates with similar ones in the same time slot and area, and keep every other activity as it is. Recompute each day's "totalCost" as the sum of its activity costs and "summary.totalEstimatedCost" as the sum of the day totals.
+
+IMPORTANT: Return ONLY valid JSON for the full adapted itinerary, in the same structure as the current itinerary. No markdown, no explanations, no code blocks.
+
+IMPORTANT: All costs must be in Indian Rupees (INR) using the ₹ symbol.`;
+}
+
+export function buildRefinePrompt(
+  itinerary: GeneratedItinerary,
+  request: string,
+  history: ConversationTurn[]
+): string {
+  const conversation = history.length > 0
+    ? history.map((turn) => `${turn.role === 'user' ? 'Traveler' : 'Assistant'}: ${turn.content}`).join('\n')
+    : 'None';
+
+  return `You are helping a traveler refine their ${itinerary.totalDays}-day travel itinerary for ${itinerary.destination} (budget ${itinerary.budget}).
+${withNewline(describeTravelers(itinerary))}
+Current itinerary:
+${JSON.stringify(itinerary)}
+
+Earlier conversation about this itinerary:
+${conversation}
 
+The traveler now asks: ${request}
+
+Apply the requested changes and keep everything else as it is. Days may be reordered, added or removed only if the traveler asks for it; always renumber "day" from 1 and keep "totalDays" equal to the number of days.
+
+IMPORTANT: Return ONLY valid JSON. No markdown, no explanations, no code blocks. Use this exact structure:
+{
+  "reply": "A short explanation of what you changed",
+  "itinerary": { ...the full updated itinerary, in the same structure as the current itinerary... }
+}
+
+IMPORTANT: All costs must be in Indian Rupees (INR) using the ₹ symbol.`;
+}
+
+export function buildRepairPrompt(originalPrompt: string, previous: string, issues: ValidationIssue[]): string {
+  const issueList = issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n');
+
+  return `Your previous response to the request below does not match the required JSON structure.
+
+Validation errors:
+${issueList}
+
+Your previous response:
+${previous}
+
+Original request:
+${originalPrompt}
+
+Return the corrected result as ONLY valid JSON (no markdown, no explanations) using the structure from the original request.
+Keep all content that was already valid; only fix the problems listed above.`;
+}
+
+function parseAndValidate(
+  text: string,
+  validate: (data: unknown) => ValidationIssue[]
+): { data?: unknown; issues: ValidationIssue[] } {
+  let parsed: unknown;
   try {
-    console.log('Calling Gemini API...');
-    
-    // Add a small delay to avoid hitting rate limits
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text();
-    
-    console.log('Raw Gemini response length:', text.length);
-    console.log('Raw Gemini response (first 500 chars):', text.substring(0, 500));
-    
-    // Clean up the response - remove markdown code blocks if present
-    text = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    // Remove any leading/trailing whitespace or newlines
-    text = text.trim();
-    
-    // If response doesn't start with {, try to find JSON object
-    if (!text.startsWith('{')) {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        text = jsonMatch[0];
-        console.log('Extracted JSON from response');
-      } else {
-        console.error('No JSON object found in response');
-        throw new Error('AI response does not contain valid JSON. Response: ' + text.substring(0, 200));
-      }
+    parsed = extractJson(text);
+  } catch (jsonError: any) {
+    console.error('JSON parse error:', jsonError.message);
+    console.error('Text that failed to parse:', text.substring(0, 500));
+    return { issues: [{ path: '$', message: `is not valid JSON (${jsonError.message})` }] };
+  }
+
+  const issues = validate(parsed);
+  return issues.length === 0 ? { data: parsed, issues } : { issues };
+}
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Itinerary generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface GenerateOptions {
+  // Called with each day as soon as it has been streamed from the model
+  onDay?: (day: IDay, index: number) => void;
+  signal?: AbortSignal;
+  // Called once the task has finished, whether it succeeded or not
+  onProvenance?: (provenance: IGenerationProvenance) => void;
+  // User the model calls are recorded against in the usage ledger
+  userId?: string;
+}
+
+async function completeStreaming(
+  provider: ItineraryProvider,
+  request: ModelRequest,
+  { onDay, signal }: GenerateOptions
+): Promise<ModelResponse> {
+  if (!provider.stream || !onDay) {
+    return provider.complete(request);
+  }
+
+  const { model, chunks } = await provider.stream(request);
+  const parser = createDayStreamParser((day, index) => onDay(day as IDay, index));
+
+  for await (const chunk of chunks) {
+    if (signal?.aborted) {
+      throw new GenerationCancelledError();
     }
-    
-    // Validate it's valid JSON before returning
+    parser.push(chunk);
+  }
+
+  return { text: parser.getText(), model };
+}
+
+/**
+ * Maps provider errors to messages that explain how to fix the setup
+ */
+function toFriendlyError(error: any): Error {
+  // Provide more helpful error messages
+  if (error.message?.toLowerCase().includes('api key') || error.message?.toLowerCase().includes('api_key')) {
+    const isVercel = process.env.VERCEL === '1';
+    const errorMessage = isVercel
+      ? 'Invalid API key. Please check your GEMINI_API_KEY in Vercel project settings: Settings → Environment Variables. Make sure it\'s set for Production, Preview, and Development environments.'
+      : 'Invalid API key. Please check your GEMINI_API_KEY environment variable in .env.local';
+    return new Error(errorMessage);
+  }
+  if (error.message?.toLowerCase().includes('quota') || error.message?.toLowerCase().includes('limit') || error.message?.toLowerCase().includes('rate')) {
+    return new Error('API quota or rate limit exceeded. This can happen if:\n1. You\'ve used your free tier limit for today\n2. Too many requests were made quickly\n3. Your API key has usage restrictions\n\nSolutions:\n- Wait a few minutes and try again\n- Check your Google Cloud Console for quota limits\n- Verify your API key has the Gemini API enabled\n- Consider upgrading your API plan if needed');
+  }
+  if (error.message?.toLowerCase().includes('permission') || error.message?.toLowerCase().includes('forbidden')) {
+    return new Error('API permission denied. Please check your API key permissions.');
+  }
+  if (error.message?.toLowerCase().includes('model') || error.message?.toLowerCase().includes('not found')) {
+    return new Error('Gemini model not available. Please check the model name or your API access.');
+  }
+  if (error.message?.toLowerCase().includes('json') || error.name === 'SyntaxError') {
+    return new Error('Failed to parse AI response. The AI returned invalid JSON. Please try again.');
+  }
+  
+  return new Error(error.message || 'Failed to generate itinerary. Please try again.');
+}
+
+/**
+ * Runs a generation task, sending validation errors back to the model
+ * until the output is valid or we run out of repair attempts
+ */
+async function runTask<T>(
+  task: GenerationTask,
+  prompt: string,
+  validate: (data: unknown) => ValidationIssue[],
+  options: GenerateOptions = {},
+  template?: PromptTemplate
+): Promise<T> {
+  const provider = getProvider();
+  const parameters = template?.parameters;
+  const startedAt = Date.now();
+  let model: string | undefined;
+  let repairAttempts = 0;
+
+  // Makes one model call, recording it in the usage ledger whatever the outcome
+  const call = async (request: ModelRequest, stream: boolean) => {
+    const callStartedAt = Date.now();
+    const usage = {
+      userId: options.userId,
+      feature: task.kind,
+      repair: request.task.kind === 'repair',
+      provider: provider.name,
+      prompt: request.prompt,
+    };
+
     try {
-      const parsed = JSON.parse(text);
-      console.log('Successfully parsed JSON response');
-      return text;
-    } catch (jsonError: any) {
-      console.error('JSON parse error:', jsonError.message);
-      console.error('Text that failed to parse:', text.substring(0, 500));
-      throw new Error('Failed to parse AI response as JSON. Please try again.');
+      const response = stream
+        ? await completeStreaming(provider, request, options)
+        : await provider.complete(request);
+      const result = parseAndValidate(response.text, validate);
+      await recordUsage({
+        ...usage,
+        model: response.model,
+        response: response.text,
+        usage: response.usage,
+        latencyMs: Date.now() - callStartedAt,
+        outcome: result.data ? 'success' : 'invalid',
+      });
+      return { response, result };
+    } catch (error: any) {
+      await recordUsage({
+        ...usage,
+        latencyMs: Date.now() - callStartedAt,
+        outcome: error instanceof GenerationCancelledError ? 'cancelled' : 'error',
+        error: error.message,
+      });
+      throw error;
+    }
+  };
+
+  try {
+    console.log(`Running ${task.kind} generation with provider: ${provider.name}`);
+
+    let { response, result } = await call({ task, prompt, parameters }, true);
+    model = response.model;
+
+    console.log('Raw model response length:', response.text.length);
+    console.log('Raw model response (first 500 chars):', response.text.substring(0, 500));
+
+    for (let attempt = 1; !result.data && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (options.signal?.aborted) {
+        throw new GenerationCancelledError();
+      }
+      console.warn(`${task.kind} output failed validation with ${result.issues.length} issue(s), repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}`);
+      repairAttempts = attempt;
+      ({ response, result } = await call({
+        task: { kind: 'repair', original: task, previous: response.text, issues: result.issues },
+        prompt: buildRepairPrompt(prompt, response.text, result.issues),
+        parameters,
+      }, false));
+      model = response.model;
     }
-    
+
+    if (!result.data) {
+      throw new ItineraryValidationError(result.issues);
+    }
+
+    console.log(`Successfully parsed and validated ${task.kind} output`);
+    return result.data as T;
   } catch (error: any) {
+    if (error instanceof ItineraryValidationError || error instanceof GenerationCancelledError) {
+      throw error;
+    }
+
     console.error('Error generating itinerary:', error);
     console.error('Error name:', error.name);
     console.error('Error message:', error.message);
     console.error('Error stack:', error.stack);
-    
-    // Provide more helpful error messages
-    if (error.message?.toLowerCase().includes('api key') || error.message?.toLowerCase().includes('api_key')) {
-      const isVercel = process.env.VERCEL === '1';
-      const errorMessage = isVercel
-        ? 'Invalid API key. Please check your GEMINI_API_KEY in Vercel project settings: Settings → Environment Variables. Make sure it\'s set for Production, Preview, and Development environments.'
-        : 'Invalid API key. Please check your GEMINI_API_KEY environment variable in .env.local';
-      throw new Error(errorMessage);
-    }
-    if (error.message?.toLowerCase().includes('quota') || error.message?.toLowerCase().includes('limit') || error.message?.toLowerCase().includes('rate')) {
-      throw new Error('API quota or rate limit exceeded. This can happen if:\n1. You\'ve used your free tier limit for today\n2. Too many requests were made quickly\n3. Your API key has usage restrictions\n\nSolutions:\n- Wait a few minutes and try again\n- Check your Google Cloud Console for quota limits\n- Verify your API key has the Gemini API enabled\n- Consider upgrading your API plan if needed');
-    }
-    if (error.message?.toLowerCase().includes('permission') || error.message?.toLowerCase().includes('forbidden')) {
-      throw new Error('API permission denied. Please check your API key permissions.');
-    }
-    if (error.message?.toLowerCase().includes('model') || error.message?.toLowerCase().includes('not found')) {
-      throw new Error('Gemini model not available. Please check the model name or your API access.');
-    }
-    if (error.message?.toLowerCase().includes('json') || error.name === 'SyntaxError') {
-      throw new Error('Failed to parse AI response. The AI returned invalid JSON. Please try again.');
-    }
-    
-    throw new Error(error.message || 'Failed to generate itinerary. Please try again.');
+
+    throw toFriendlyError(error);
+  } finally {
+    options.onProvenance?.({
+      provider: provider.name,
+      model,
+      promptVersion: template?.version,
+      parameters,
+      latencyMs: Date.now() - startedAt,
+      repairAttempts,
+      generatedAt: new Date(),
+    });
   }
 }
 
+/**
+ * Generates a full itinerary with the given prompt template (the default version if omitted)
+ */
+export async function generateItinerary(
+  trip: TripRequest,
+  options: GenerateOptions = {},
+  template: PromptTemplate = getPromptTemplate()
+): Promise<GeneratedItinerary> {
+  return runTask<GeneratedItinerary>(
+    { kind: 'itinerary', trip },
+    buildItineraryPrompt(trip, template),
+    (data) => validateItinerary(data, {
+      expectedDays: trip.days,
+      dayPlan: trip.legs && trip.legs.length > 1 ? planLegDays(trip.legs) : undefined,
+    }),
+    options,
+    template
+  );
+}
+
+/**
+ * Generates a replacement for one day, using the rest of the itinerary as context
+ */
+export async function regenerateDay(
+  itinerary: GeneratedItinerary,
+  dayIndex: number,
+  instructions?: string,
+  options: GenerateOptions = {}
+): Promise<IDay> {
+  return runTask<IDay>(
+    { kind: 'day', itinerary, dayIndex, instructions },
+    buildDayPrompt(itinerary, dayIndex, instructions),
+    (data) => validateDay(data, dayIndex, plannedDay(itinerary, dayIndex)),
+    options
+  );
+}
+
+/**
+ * Generates a replacement for one activity, using the rest of the itinerary as context
+ */
+export async function regenerateActivity(
+  itinerary: GeneratedItinerary,
+  dayIndex: number,
+  activityIndex: number,
+  instructions?: string,
+  options: GenerateOptions = {}
+): Promise<IActivity> {
+  return runTask<IActivity>(
+    { kind: 'activity', itinerary, dayIndex, activityIndex, instructions },
+    buildActivityPrompt(itinerary, dayIndex, activityIndex, instructions),
+    validateActivity,
+    options
+  );
+}
+
+/**
+ * Proposes a cheaper version of an itinerary that is over budget; amounts are in INR
+ */
+export async function fitItineraryToBudget(
+  itinerary: GeneratedItinerary,
+  budget: number,
+  overBudgetBy: number,
+  options: GenerateOptions = {}
+): Promise<GeneratedItinerary> {
+  return runTask<GeneratedItinerary>(
+    { kind: 'budget', itinerary, budget, overBudgetBy },
+    buildBudgetPrompt(itinerary, budget, overBudgetBy),
+    (data) => validateItinerary(data, {
+      expectedDays: itinerary.days.length,
+      dayPlan: itinerary.legs && itinerary.legs.length > 1 ? planLegDays(itinerary.legs) : undefined,
+    }),
+    options
+  );
+}
+
+/**
+ * Adapts an itinerary cloned from a template to its new dates and party
+ */
+export async function adaptItinerary(
+  itinerary: GeneratedItinerary,
+  templateParty?: ITravelerParty,
+  options: GenerateOptions = {}
+): Promise<GeneratedItinerary> {
+  return runTask<GeneratedItinerary>(
+    { kind: 'adapt', itinerary, templateParty },
+    buildAdaptPrompt(itinerary, templateParty),
+    (data) => validateItinerary(data, {
+      expectedDays: itinerary.days.length,
+      dayPlan: itinerary.legs && itinerary.legs.length > 1 ? planLegDays(itinerary.legs) : undefined,
+    }),
+    options
+  );
+}
+
+export interface RefinementResult {
+  reply: string;
+  itinerary: GeneratedItinerary;
+}
+
+/**
+ * Proposes a modified itinerary for a natural-language request; the caller decides whether to apply it
+ */
+export async function refineItinerary(
+  itinerary: GeneratedItinerary,
+  request: string,
+  history: ConversationTurn[] = [],
+  options: GenerateOptions = {}
+): Promise<RefinementResult> {
+  return runTask<RefinementResult>(
+    { kind: 'refine', itinerary, request, history },
+    buildRefinePrompt(itinerary, request, history),
+    validateRefinement,
+    options
+  );
+}
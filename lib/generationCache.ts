@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import GenerationCache from '@/models/GenerationCache';
+import { GeneratedItinerary } from '@/lib/itinerarySchema';
+import { TripRequest } from '@/lib/providers';
+import { IGenerationProvenance } from '@/models/Itinerary';
+import { moneyToINR, parseMoney } from '@/lib/currencyUtils';
+import { applyTripDates } from '@/lib/tripDates';
+
+/**
+ * Cache of generated itineraries keyed by a normalized trip request, so that
+ * near-identical requests ("Goa, 3 days, ₹30000, Beaches") skip the model.
+ *
+ * The key is the destination (for multi-city trips, the legs), the number of
+ * days, the per-day budget band and the sorted interests; travelers, pace,
+ * requirements and dates are not, so near-identical trips share an entry. A hit
+ * is re-dated to the request's start date, as templates are when cloned.
+ * GENERATION_CACHE_TTL_HOURS sets how long entries live (default 24, 0 disables the cache).
+ */
+
+// Upper bounds of the per-day budget bands, in INR
+const BUDGET_BANDS = [2000, 5000, 10000, 20000, 50000];
+
+export function getCacheTtlMs(): number {
+  const hours = parseFloat(process.env.GENERATION_CACHE_TTL_HOURS ?? '24');
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function normalizeList(values: string[] = []): string[] {
+  return values.map(normalizeText).filter(Boolean).sort();
+}
+
+export function getBudgetBand(budget: string, days: number): number {
+  const money = parseMoney(budget);
+  const amount = money ? moneyToINR(money) : 0;
+  const perDay = amount / Math.max(days, 1);
+  const band = BUDGET_BANDS.findIndex((limit) => perDay <= limit);
+  return band === -1 ? BUDGET_BANDS.length : band;
+}
+
+export function buildCacheKey(trip: TripRequest): string {
+  const normalized = {
+    destination: normalizeText(trip.destination),
+    days: trip.days,
+    budgetBand: getBudgetBand(trip.budget, trip.days),
+    interests: normalizeList(trip.interests),
+    legs: (trip.legs || []).map((leg) => [normalizeText(leg.city), leg.nights]),
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Returns a cached itinerary for the trip, adjusted to its exact budget and dates, or null on a miss
+ */
+export async function findCachedItinerary(
+  trip: TripRequest
+): Promise<{ itinerary: GeneratedItinerary; provenance?: IGenerationProvenance } | null> {
+  if (!getCacheTtlMs()) {
+    return null;
+  }
+
+  const entry = await GenerationCache.findOneAndUpdate(
+    { key: buildCacheKey(trip), expiresAt: { $gt: new Date() } },
+    { $inc: { hits: 1 } },
+    { new: true }
+  ).lean();
+
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    itinerary: {
+      ...entry.itinerary,
+      budget: trip.budget,
+      startDate: trip.startDate,
+      days: applyTripDates(entry.itinerary.days, trip.startDate),
+    },
+    provenance: entry.provenance,
+  };
+}
+
+export async function cacheItinerary(
+  trip: TripRequest,
+  itinerary: GeneratedItinerary,
+  provenance?: IGenerationProvenance
+) {
+  const ttl = getCacheTtlMs();
+  if (!ttl) {
+    return;
+  }
+
+  await GenerationCache.updateOne(
+    { key: buildCacheKey(trip) },
+    {
+      destination: trip.destination,
+      itinerary,
+      provenance,
+      hits: 0,
+      expiresAt: new Date(Date.now() + ttl),
+    },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,224 @@
+import dbConnect from '@/lib/mongodb';
+import GenerationJob, { IGenerationJob } from '@/models/GenerationJob';
+import { generateItinerary, GenerationCancelledError } from '@/lib/gemini';
+import { ItineraryValidationError } from '@/lib/itinerarySchema';
+import { saveGeneratedItinerary } from '@/lib/itineraryGeneration';
+import { TripRequest } from '@/lib/providers';
+import { getPromptTemplate, selectPromptTemplate } from '@/lib/promptTemplates';
+import { IGenerationProvenance } from '@/models/Itinerary';
+import { cacheItinerary, findCachedItinerary } from '@/lib/generationCache';
+import { consumeGeneration } from '@/lib/generationQuota';
+
+/**
+ * Asynchronous itinerary generation.
+ *
+ * The generate route stores a GenerationJob and hands its id to the queue,
+ * then returns straight away; clients poll the job until it succeeds or fails.
+ * By default jobs run in this process after the response has been sent. On
+ * hosts that freeze the process between requests, register a queue backed by
+ * an external worker with setGenerationQueue() and have the worker call
+ * runGenerationJob() for each id it receives.
+ */
+
+export interface GenerationQueue {
+  enqueue(jobId: string): void | Promise<void>;
+}
+
+export const JOB_CANCELLED_MESSAGE = 'Cancelled by user';
+
+// Queued or running jobs older than this are treated as lost (e.g. the process restarted)
+export const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// How long succeeded jobs are kept before MongoDB removes them
+const SUCCEEDED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+const inProcessQueue: GenerationQueue = {
+  enqueue(jobId) {
+    setImmediate(() => {
+      runGenerationJob(jobId).catch((error) => {
+        console.error(`Generation job ${jobId} crashed:`, error);
+      });
+    });
+  },
+};
+
+let queue: GenerationQueue = inProcessQueue;
+
+export function setGenerationQueue(next: GenerationQueue) {
+  queue = next;
+}
+
+/**
+ * Creates a job for the trip. Unless `fresh` is set, a cached itinerary for an
+ * equivalent request is saved straight away and the job is returned already succeeded.
+ * Only jobs that call the model count against the user's quota (throws RateLimitError).
+ */
+export async function createGenerationJob(userId: string, trip: TripRequest, { fresh = false } = {}) {
+  const cached = fresh ? null : await findCachedItinerary(trip);
+
+  if (cached) {
+    const provenance = cached.provenance
+      ? { ...cached.provenance, cached: true }
+      : { provider: 'cache', latencyMs: 0, repairAttempts: 0, generatedAt: new Date(), cached: true };
+    const itinerary = await saveGeneratedItinerary(userId, trip, cached.itinerary, provenance);
+
+    return GenerationJob.create({
+      userId,
+      status: 'succeeded',
+      request: trip,
+      promptVersion: provenance.promptVersion,
+      itineraryId: itinerary._id,
+      provenance,
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      expiresAt: new Date(Date.now() + SUCCEEDED_JOB_TTL_MS),
+    });
+  }
+
+  await consumeGeneration(userId);
+
+  const job = await GenerationJob.create({
+    userId,
+    status: 'queued',
+    request: trip,
+    promptVersion: selectPromptTemplate().version,
+  });
+  await queue.enqueue(job._id.toString());
+  return job;
+}
+
+/**
+ * Turns a generation failure into a message with hints for common configuration problems
+ */
+export function describeGenerationError(error: any): string {
+  let errorMessage = 'Failed to generate itinerary. Please try again.';
+
+  if (error?.message) {
+    errorMessage = error.message;
+
+    // Add helpful hints for common errors
+    if (error.message.includes('API key') || error.message.includes('GEMINI_API_KEY')) {
+      const isVercel = process.env.VERCEL === '1';
+      if (isVercel) {
+        errorMessage += ' Please check your GEMINI_API_KEY in Vercel project settings: Settings → Environment Variables. Make sure it\'s set for all environments (Production, Preview, Development).';
+      } else {
+        errorMessage += ' Please check your GEMINI_API_KEY in .env.local';
+      }
+    } else if (error.message.includes('MongoDB') || error.message.includes('database')) {
+      errorMessage += ' Please check your MONGODB_URI in .env.local';
+    } else if (error.message.includes('parse') || error.message.includes('JSON')) {
+      errorMessage += ' The AI response was invalid. Please try again.';
+    }
+  }
+
+  return errorMessage;
+}
+
+/**
+ * Runs a queued job to completion. Safe to call more than once for the same id:
+ * only the first call claims the job.
+ */
+export async function runGenerationJob(jobId: string) {
+  await dbConnect();
+
+  const job = await GenerationJob.findOneAndUpdate(
+    { _id: jobId, status: 'queued' },
+    { status: 'running', startedAt: new Date() },
+    { new: true }
+  );
+
+  if (!job) {
+    return;
+  }
+
+  // Cancelling a job marks it failed; the worker notices on the next day and stops
+  const controller = new AbortController();
+  const isRunning = { _id: jobId, status: 'running' };
+  let provenance: IGenerationProvenance | undefined;
+
+  try {
+    const template = getPromptTemplate(job.promptVersion);
+    const data = await generateItinerary(job.request, {
+      userId: job.userId.toString(),
+      signal: controller.signal,
+      onDay: (day, index) => {
+        GenerationJob.updateOne(isRunning, { $set: { [`partialDays.${index}`]: day } })
+          .then((result) => {
+            if (result.matchedCount === 0) {
+              controller.abort();
+            }
+          })
+          .catch((error) => console.error(`Failed to store progress for job ${jobId}:`, error));
+      },
+      onProvenance: (result) => {
+        provenance = result;
+      },
+    }, template);
+
+    if (!(await GenerationJob.exists(isRunning))) {
+      throw new GenerationCancelledError();
+    }
+
+    const itinerary = await saveGeneratedItinerary(job.userId.toString(), job.request, data, provenance);
+
+    try {
+      await cacheItinerary(job.request, data, provenance);
+    } catch (error) {
+      console.error(`Failed to cache itinerary for job ${jobId}:`, error);
+    }
+
+    // The days and provenance are on the itinerary now, so the job only needs to last until polled
+    await GenerationJob.updateOne(isRunning, {
+      status: 'succeeded',
+      itineraryId: itinerary._id,
+      partialDays: [],
+      provenance,
+      finishedAt: new Date(),
+      expiresAt: new Date(Date.now() + SUCCEEDED_JOB_TTL_MS),
+    });
+  } catch (error: any) {
+    if (error instanceof GenerationCancelledError) {
+      console.log(`Generation job ${jobId} cancelled`);
+      return;
+    }
+
+    console.error(`Generation job ${jobId} failed:`, error);
+    await GenerationJob.updateOne(isRunning, {
+      status: 'failed',
+      partialDays: [],
+      finishedAt: new Date(),
+      provenance,
+      error: {
+        message: describeGenerationError(error),
+        issues: error instanceof ItineraryValidationError ? error.issues : undefined,
+      },
+    });
+  }
+}
+
+/**
+ * Cancels a job that has not finished yet; returns false if it already finished
+ */
+export async function cancelGenerationJob(jobId: string, userId: string): Promise<boolean> {
+  const result = await GenerationJob.updateOne(
+    { _id: jobId, userId, status: { $in: ['queued', 'running'] } },
+    { status: 'failed', partialDays: [], finishedAt: new Date(), error: { message: JOB_CANCELLED_MESSAGE } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Marks a job failed if its worker has been silent for longer than JOB_TIMEOUT_MS
+ */
+export async function failIfStale(job: IGenerationJob & { save(): Promise<unknown> }) {
+  const since = job.startedAt || job.createdAt;
+  const isActive = job.status === 'queued' || job.status === 'running';
+
+  if (isActive && since && Date.now() - new Date(since).getTime() > JOB_TIMEOUT_MS) {
+    job.status = 'failed';
+    job.partialDays = [];
+    job.finishedAt = new Date();
+    job.error = { message: 'Generation timed out. Please try again.' };
+    await job.save();
+  }
+}
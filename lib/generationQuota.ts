@@ -0,0 +1,104 @@
+import { consumeRateLimits, getUsage, RateLimitRule } from '@/lib/rateLimit';
+
+/**
+ * Limits on model calls. Full itinerary generations are the expensive ones and have
+ * a daily quota; edits (regenerating a day or activity, refinement requests) have their
+ * own, larger one. Both share the global rate limit, which protects the provider quota.
+ * Each limit is read from the environment and a value of 0 disables it.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GenerationQuota {
+  // Null when the daily quota is disabled
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const userKey = (userId: string) => `generate:user:${userId}`;
+const editKey = (userId: string) => `edit:user:${userId}`;
+const GLOBAL_KEY = 'generate:global';
+
+// Daily quotas reset at midnight UTC, like the provider's own quotas
+function today() {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  return { start, end: new Date(start.getTime() + DAY_MS) };
+}
+
+function dailyQuotaRule(userId: string): RateLimitRule {
+  return {
+    key: userKey(userId),
+    limit: readLimit('GENERATION_DAILY_QUOTA', 20),
+    fixedWindow: today(),
+    message: 'You have used all of your itinerary generations for today.',
+  };
+}
+
+function globalRule(): RateLimitRule {
+  return {
+    key: GLOBAL_KEY,
+    limit: readLimit('GENERATION_GLOBAL_RATE_LIMIT', 30),
+    windowMs: readLimit('GENERATION_RATE_WINDOW_SECONDS', 60) * 1000,
+    message: 'The itinerary generator is busy.',
+  };
+}
+
+export async function getGenerationQuota(userId: string): Promise<GenerationQuota> {
+  const rule = dailyQuotaRule(userId);
+  const used = await getUsage(rule);
+
+  return {
+    limit: rule.limit || null,
+    used,
+    remaining: rule.limit ? Math.max(0, rule.limit - used) : null,
+    resetsAt: rule.fixedWindow!.end.toISOString(),
+  };
+}
+
+/**
+ * Counts one generation against the user's and the global limits.
+ * Throws RateLimitError when any of them is used up.
+ */
+export async function consumeGeneration(userId: string) {
+  await consumeRateLimits([
+    dailyQuotaRule(userId),
+    {
+      key: userKey(userId),
+      limit: readLimit('GENERATION_USER_RATE_LIMIT', 3),
+      windowMs: readLimit('GENERATION_RATE_WINDOW_SECONDS', 60) * 1000,
+      message: 'You are generating itineraries too quickly.',
+    },
+    globalRule(),
+  ]);
+}
+
+/**
+ * Counts one model edit (regenerating part of an itinerary or a refinement request)
+ * against the user's edit limits and the global limit.
+ * Throws RateLimitError when any of them is used up.
+ */
+export async function consumeEdit(userId: string) {
+  await consumeRateLimits([
+    {
+      key: editKey(userId),
+      limit: readLimit('EDIT_DAILY_QUOTA', 100),
+      fixedWindow: today(),
+      message: 'You have used all of your itinerary edits for today.',
+    },
+    {
+      key: editKey(userId),
+      limit: readLimit('EDIT_USER_RATE_LIMIT', 10),
+      windowMs: readLimit('GENERATION_RATE_WINDOW_SECONDS', 60) * 1000,
+      message: 'You are editing itineraries too quickly.',
+    },
+    globalRule(),
+  ]);
+}
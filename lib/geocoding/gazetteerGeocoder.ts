@@ -0,0 +1,90 @@
+import dataset from './landmarks.json';
+import { GeocodeQuery, GeocodeResult, Geocoder } from './types';
+
+/**
+ * Offline geocoder backed by the bundled landmarks.json gazetteer of popular
+ * cities and landmarks. Places are matched by name or alias within the query's
+ * city; places it does not know fall back to the city centre, marked as approximate.
+ * Queries for a city that is not in the gazetteer are not placed at all.
+ */
+
+interface Place {
+  name: string;
+  aliases?: string[];
+  lat: number;
+  lng: number;
+}
+
+interface City extends Place {
+  country: string;
+  landmarks: Place[];
+}
+
+const CITIES: City[] = dataset.cities;
+
+// Lowercase, accents removed and punctuation collapsed, padded so whole words can be matched
+function normalize(text: string): string {
+  const plain = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9/]+/g, ' ')
+    .trim();
+  return ` ${plain} `;
+}
+
+// Length of the longest name or alias of the place found in the text, or 0
+function matchLength(place: Place, text: string): number {
+  return [place.name, ...(place.aliases || [])]
+    .map(normalize)
+    .filter((name) => text.includes(name))
+    .reduce((longest, name) => Math.max(longest, name.length), 0);
+}
+
+function bestMatch<T extends Place>(places: T[], text: string): T | null {
+  let best: T | null = null;
+  let bestLength = 0;
+
+  places.forEach((place) => {
+    const length = matchLength(place, text);
+    if (length > bestLength) {
+      best = place;
+      bestLength = length;
+    }
+  });
+
+  return best;
+}
+
+function geocodeOne(query: GeocodeQuery): GeocodeResult | null {
+  const texts = [query.location, query.fallbackText].filter((text): text is string => !!text).map(normalize);
+  const city = query.city
+    ? bestMatch(CITIES, normalize(query.city))
+    : texts.map((text) => bestMatch(CITIES, text)).find(Boolean) || null;
+
+  // A landmark of the same name in another city would be the wrong place
+  if (query.city && !city) {
+    return null;
+  }
+
+  // Without a city, any landmark named in the text will do
+  const landmarks = city ? city.landmarks : CITIES.flatMap((entry) => entry.landmarks);
+
+  for (const text of texts) {
+    const landmark = bestMatch(landmarks, text);
+    if (landmark) {
+      return { name: landmark.name, lat: landmark.lat, lng: landmark.lng, precision: 'landmark' };
+    }
+  }
+
+  return city ? { name: city.name, lat: city.lat, lng: city.lng, precision: 'city' } : null;
+}
+
+export const gazetteerGeocoder: Geocoder = {
+  name: 'gazetteer',
+
+  async geocode(queries: GeocodeQuery[]): Promise<(GeocodeResult | null)[]> {
+    return queries.map(geocodeOne);
+  },
+};
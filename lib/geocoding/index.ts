@@ -0,0 +1,116 @@
+import { gazetteerGeocoder } from './gazetteerGeocoder';
+import { GeocodeQuery, Geocoder } from './types';
+
+export * from './types';
+
+/**
+ * Registered geocoders, keyed by the name used in the GEOCODER environment variable
+ */
+const geocoders: { [name: string]: Geocoder } = {
+  [gazetteerGeocoder.name]: gazetteerGeocoder,
+};
+
+export function registerGeocoder(geocoder: Geocoder) {
+  geocoders[geocoder.name] = geocoder;
+}
+
+/**
+ * Returns the configured geocoder (defaults to the offline gazetteer)
+ */
+export function getGeocoder(): Geocoder {
+  const name = (process.env.GEOCODER || gazetteerGeocoder.name).toLowerCase();
+  const geocoder = geocoders[name];
+
+  if (!geocoder) {
+    throw new Error(
+      `Unknown GEOCODER "${name}". Available geocoders: ${Object.keys(geocoders).join(', ')}`
+    );
+  }
+
+  return geocoder;
+}
+
+interface GeocodableActivity {
+  title?: string;
+  location?: string;
+  geo?: {
+    lat: number;
+    lng: number;
+    source: string;
+    name?: string;
+    precision?: string;
+  };
+}
+
+interface GeocodableItinerary {
+  destination: string;
+  legs?: { city: string }[];
+  days: { leg?: number; activities?: GeocodableActivity[] }[];
+}
+
+const sameText = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Copies manual pins from `previousDays` onto the activities of `days` that match them
+ * (same day, same title or location), so pins survive the model rewriting the days.
+ * Call before geocodeItinerary.
+ */
+export function keepManualPins(previousDays: { activities?: GeocodableActivity[] }[], days: { activities?: GeocodableActivity[] }[]) {
+  days.forEach((day, dayIndex) => {
+    const pinned = (previousDays[dayIndex]?.activities || []).filter((activity) => activity.geo?.source === 'manual');
+
+    (day.activities || []).forEach((activity) => {
+      const match = activity.geo?.source === 'manual' ? undefined : pinned.find((previous) =>
+        sameText(previous.title, activity.title) || sameText(previous.location, activity.location)
+      );
+      if (match) {
+        activity.geo = { ...match.geo! };
+      }
+    });
+  });
+}
+
+/**
+ * Geocodes every activity in one batch, setting `geo` on those that could be placed.
+ * Manual pins are kept. Failures are logged rather than thrown, since an itinerary
+ * without coordinates is still usable. Returns the number of activities placed.
+ */
+export async function geocodeItinerary(itinerary: GeocodableItinerary): Promise<number> {
+  const targets: { activity: GeocodableActivity; query: GeocodeQuery }[] = [];
+
+  itinerary.days.forEach((day) => {
+    const city = itinerary.legs && itinerary.legs.length > 0 && day.leg !== undefined
+      ? itinerary.legs[day.leg]?.city
+      : itinerary.destination;
+
+    (day.activities || []).forEach((activity) => {
+      if (activity.geo?.source === 'manual' || (!activity.location && !activity.title)) {
+        return;
+      }
+      targets.push({
+        activity,
+        query: { location: activity.location || '', fallbackText: activity.title, city },
+      });
+    });
+  });
+
+  if (targets.length === 0) {
+    return 0;
+  }
+
+  try {
+    const geocoder = getGeocoder();
+    const results = await geocoder.geocode(targets.map((target) => target.query));
+
+    return results.reduce((placed, result, index) => {
+      const { activity } = targets[index];
+      activity.geo = result
+        ? { lat: result.lat, lng: result.lng, source: geocoder.name, name: result.name, precision: result.precision }
+        : undefined;
+      return result ? placed + 1 : placed;
+    }, 0);
+  } catch (error) {
+    console.error('Failed to geocode itinerary:', error);
+    return 0;
+  }
+}
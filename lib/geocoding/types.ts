@@ -0,0 +1,31 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodeQuery {
+  // Free-text place, usually an activity's location ("Eiffel Tower, Champ de Mars")
+  location: string;
+  // Used when the location does not match a known place, e.g. the activity title
+  fallbackText?: string;
+  // The city the place is in, which narrows the search
+  city?: string;
+}
+
+export type GeocodePrecision = 'landmark' | 'city';
+
+export interface GeocodeResult extends GeoPoint {
+  // Name of the matched place
+  name: string;
+  // 'city' when only the city could be placed, so the point is approximate
+  precision: GeocodePrecision;
+}
+
+/**
+ * A geocoding service. Lookups are batched so that remote services can resolve
+ * a whole itinerary in one request; results are returned in query order.
+ */
+export interface Geocoder {
+  name: string;
+  geocode(queries: GeocodeQuery[]): Promise<(GeocodeResult | null)[]>;
+}
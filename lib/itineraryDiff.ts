@@ -0,0 +1,116 @@
+import { IActivity, IDay, IItinerary } from '@/models/Itinerary';
+
+/**
+ * Day/activity-level comparison of two versions of an itinerary
+ */
+
+export interface ItineraryChange {
+  type: 'added' | 'removed' | 'modified';
+  scope: 'day' | 'activity' | 'summary';
+  day?: number;
+  title: string;
+  details?: string[];
+}
+
+type DiffableItinerary = Pick<IItinerary, 'days' | 'summary'> & Partial<Pick<IItinerary, 'totalDays' | 'interests'>>;
+
+const ACTIVITY_FIELDS: (keyof IActivity)[] = ['time', 'description', 'location', 'duration', 'cost', 'category'];
+
+function describeFieldChanges<T>(before: T, after: T, fields: (keyof T)[]): string[] {
+  return fields
+    .filter((field) => (before[field] ?? '') !== (after[field] ?? ''))
+    .map((field) => `${String(field)}: "${before[field] ?? ''}" → "${after[field] ?? ''}"`);
+}
+
+function diffActivities(before: IActivity[], after: IActivity[], dayNumber: number): ItineraryChange[] {
+  const changes: ItineraryChange[] = [];
+  const key = (activity: IActivity) => (activity.title || '').trim().toLowerCase();
+  const remaining = [...after];
+
+  before.forEach((activity) => {
+    const matchIndex = remaining.findIndex((candidate) => key(candidate) === key(activity));
+
+    if (matchIndex === -1) {
+      changes.push({ type: 'removed', scope: 'activity', day: dayNumber, title: activity.title });
+      return;
+    }
+
+    const [match] = remaining.splice(matchIndex, 1);
+    const details = describeFieldChanges(activity, match, ACTIVITY_FIELDS);
+    if (details.length > 0) {
+      changes.push({ type: 'modified', scope: 'activity', day: dayNumber, title: activity.title, details });
+    }
+  });
+
+  remaining.forEach((activity) => {
+    changes.push({ type: 'added', scope: 'activity', day: dayNumber, title: activity.title });
+  });
+
+  return changes;
+}
+
+function diffDay(before: IDay, after: IDay, dayNumber: number): ItineraryChange[] {
+  const changes: ItineraryChange[] = [];
+  const details = describeFieldChanges(before, after, ['date', 'totalCost', 'notes']);
+
+  if (details.length > 0) {
+    changes.push({ type: 'modified', scope: 'day', day: dayNumber, title: `Day ${dayNumber}`, details });
+  }
+
+  return changes.concat(diffActivities(before.activities || [], after.activities || [], dayNumber));
+}
+
+function diffList(label: string, before: string[] = [], after: string[] = []): ItineraryChange[] {
+  const removed = before.filter((item) => !after.includes(item));
+  const added = after.filter((item) => !before.includes(item));
+
+  if (removed.length === 0 && added.length === 0) {
+    return [];
+  }
+
+  return [{
+    type: 'modified',
+    scope: 'summary',
+    title: label,
+    details: [...removed.map((item) => `- ${item}`), ...added.map((item) => `+ ${item}`)],
+  }];
+}
+
+/**
+ * Lists the changes needed to turn `before` into `after`.
+ * Days are compared by position; activities within a day are matched by title.
+ */
+export function diffItineraries(before: DiffableItinerary, after: DiffableItinerary): ItineraryChange[] {
+  const changes: ItineraryChange[] = [];
+  const beforeDays = before.days || [];
+  const afterDays = after.days || [];
+  const dayCount = Math.max(beforeDays.length, afterDays.length);
+
+  for (let index = 0; index < dayCount; index++) {
+    const dayNumber = index + 1;
+    const beforeDay = beforeDays[index];
+    const afterDay = afterDays[index];
+
+    if (!beforeDay) {
+      changes.push({ type: 'added', scope: 'day', day: dayNumber, title: `Day ${dayNumber}` });
+    } else if (!afterDay) {
+      changes.push({ type: 'removed', scope: 'day', day: dayNumber, title: `Day ${dayNumber}` });
+    } else {
+      changes.push(...diffDay(beforeDay, afterDay, dayNumber));
+    }
+  }
+
+  if ((before.summary?.totalEstimatedCost ?? '') !== (after.summary?.totalEstimatedCost ?? '')) {
+    changes.push({
+      type: 'modified',
+      scope: 'summary',
+      title: 'Total estimated cost',
+      details: [`"${before.summary?.totalEstimatedCost ?? ''}" → "${after.summary?.totalEstimatedCost ?? ''}"`],
+    });
+  }
+  changes.push(...diffList('Highlights', before.summary?.highlights, after.summary?.highlights));
+  changes.push(...diffList('Tips', before.summary?.tips, after.summary?.tips));
+  changes.push(...diffList('Interests', before.interests, after.interests));
+
+  return changes;
+}
@@ -0,0 +1,188 @@
+import Itinerary, { IDay, IGenerationProvenance, IItinerary } from '@/models/Itinerary';
+import { GeneratedItinerary } from '@/lib/itinerarySchema';
+import { TripRequest } from '@/lib/providers';
+import { legsToDestination, normalizeLegs, totalDaysForLegs } from '@/lib/tripLegs';
+import { applyTripDates, getEndDate, normalizeStartDate } from '@/lib/tripDates';
+import { normalizeMobility, normalizePace, normalizeParty } from '@/lib/travelerParty';
+import { normalizeConstraints } from '@/lib/tripConstraints';
+import { BudgetReport, checkBudget, withComputedTotals } from '@/lib/budgetCompliance';
+import { fitItineraryToBudget, GenerateOptions } from '@/lib/gemini';
+import { normalizeCurrencyPreference, toCanonicalINR } from '@/lib/currencyUtils';
+import { geocodeItinerary } from '@/lib/geocoding';
+import { recordRevision } from '@/lib/itineraryRevisions';
+
+// Model calls made by fitToBudget before giving up on getting under budget
+const MAX_FIT_ATTEMPTS = 2;
+
+// Longest trip that can be generated, matching the create form
+export const MAX_TRIP_DAYS = 30;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+/**
+ * Builds a trip request from the create form body.
+ * The budget is converted to INR from `currency` (the user's home currency) unless it names one.
+ * Returns an error message instead when required fields are missing or invalid.
+ */
+export function buildTripRequest(body: any): { trip?: TripRequest; error?: string } {
+  const { destination, days, interests } = body || {};
+  const { currency: homeCurrency } = normalizeCurrencyPreference({ currency: body?.currency });
+  const budget = body?.budget ? toCanonicalINR(String(body.budget), homeCurrency) : '';
+  const legs = normalizeLegs(body?.legs);
+  const startDate = normalizeStartDate(body?.startDate) || undefined;
+
+  if (body?.startDate && !startDate) {
+    return { error: 'Please provide a valid start date' };
+  }
+
+  if (interests !== undefined && interests !== null && !isStringList(interests)) {
+    return { error: 'Interests must be a list of text values' };
+  }
+
+  const travelers = {
+    party: normalizeParty(body?.party),
+    pace: normalizePace(body?.pace),
+    mobility: normalizeMobility(body?.mobility),
+    constraints: normalizeConstraints(body?.constraints),
+  };
+
+  if (legs.length > 1) {
+    if (!budget) {
+      return { error: 'Please provide a budget' };
+    }
+
+    if (totalDaysForLegs(legs) > MAX_TRIP_DAYS) {
+      return { error: `Trips can be at most ${MAX_TRIP_DAYS} days long` };
+    }
+
+    return {
+      trip: {
+        destination: legsToDestination(legs),
+        days: totalDaysForLegs(legs),
+        budget,
+        interests: interests || [],
+        legs,
+        startDate,
+        ...travelers,
+        homeCurrency,
+      },
+    };
+  }
+
+  if (!destination || !days || !budget) {
+    return { error: 'Please provide destination, days, and budget' };
+  }
+
+  const dayCount = Number(days);
+  if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > MAX_TRIP_DAYS) {
+    return { error: `Days must be a whole number from 1 to ${MAX_TRIP_DAYS}` };
+  }
+
+  return {
+    trip: {
+      destination,
+      days: dayCount,
+      budget,
+      interests: interests || [],
+      startDate,
+      ...travelers,
+      homeCurrency,
+    },
+  };
+}
+
+/**
+ * Persists a validated AI itinerary for the given user, with activity locations geocoded
+ */
+export async function saveGeneratedItinerary(
+  userId: string,
+  trip: TripRequest,
+  data: GeneratedItinerary,
+  generation?: IGenerationProvenance
+) {
+  const destination = trip.legs ? trip.destination : data.destination || trip.destination;
+  const days = applyTripDates(data.days, trip.startDate);
+  await geocodeItinerary({ destination, legs: trip.legs, days });
+
+  const itinerary = await Itinerary.create({
+    userId,
+    title: `${trip.destination} - ${trip.days} Day${trip.days > 1 ? 's' : ''} Trip`,
+    destination,
+    legs: trip.legs,
+    startDate: trip.startDate,
+    endDate: trip.startDate ? getEndDate(trip.startDate, data.days.length) : undefined,
+    party: trip.party,
+    pace: trip.pace,
+    mobility: trip.mobility,
+    constraints: trip.constraints,
+    generation,
+    totalDays: data.totalDays,
+    budget: data.budget || trip.budget,
+    interests: data.interests,
+    days,
+    summary: data.summary,
+    collaborators: [],
+    isPublic: false,
+  });
+
+  await recordRevision({ itinerary, authorId: userId, action: 'generate', description: 'Generated itinerary' });
+  return itinerary;
+}
+
+// Fields computed from the model's output on save; the model is not shown them
+const DERIVED_FIELDS = ['geo', 'costMoney', 'startMinutes', 'durationMinutes', 'totalCostMoney', 'totalEstimatedCostMoney'];
+
+const withoutDerivedFields = <T>(value: T): T =>
+  JSON.parse(JSON.stringify(value), (key, field) => (DERIVED_FIELDS.includes(key) ? undefined : field));
+
+/**
+ * Extracts the plain itinerary content used as context for follow-up model calls,
+ * without derived fields such as coordinates and parsed costs
+ */
+export function toGenerationContext(itinerary: IItinerary): GeneratedItinerary {
+  return {
+    destination: itinerary.destination,
+    totalDays: itinerary.totalDays,
+    budget: itinerary.budget,
+    interests: itinerary.interests || [],
+    legs: itinerary.legs && itinerary.legs.length > 0 ? JSON.parse(JSON.stringify(itinerary.legs)) : undefined,
+    startDate: itinerary.startDate,
+    party: itinerary.party ? JSON.parse(JSON.stringify(itinerary.party)) : undefined,
+    pace: itinerary.pace,
+    mobility: itinerary.mobility ? [...itinerary.mobility] : undefined,
+    constraints: itinerary.constraints ? JSON.parse(JSON.stringify(itinerary.constraints)) : undefined,
+    days: withoutDerivedFields(itinerary.days || []),
+    summary: withoutDerivedFields(itinerary.summary || { totalEstimatedCost: '', highlights: [], tips: [] }),
+  };
+}
+
+/**
+ * Re-dates every day from the itinerary's start date and updates the end date.
+ * Call after changing the start date or the number of days.
+ */
+export function redateItinerary(itinerary: IItinerary) {
+  const days: IDay[] = JSON.parse(JSON.stringify(itinerary.days || []));
+  itinerary.days = applyTripDates(days, itinerary.startDate);
+  itinerary.endDate = itinerary.startDate ? getEndDate(itinerary.startDate, itinerary.days.length) : undefined;
+}
+
+/**
+ * Asks the model for cheaper activities until the itinerary's costs fit its budget
+ * or MAX_FIT_ATTEMPTS is reached. Day and trip totals are recomputed from the activities.
+ */
+export async function fitToBudget(
+  itinerary: GeneratedItinerary,
+  options: GenerateOptions = {}
+): Promise<{ itinerary: GeneratedItinerary; report: BudgetReport }> {
+  let current = itinerary;
+  let report = checkBudget(current);
+
+  for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS && report.budget && report.overBudgetBy > 0; attempt++) {
+    const proposal = await fitItineraryToBudget(current, report.budget, report.overBudgetBy, options);
+    current = { ...current, days: proposal.days, summary: proposal.summary };
+    report = checkBudget(current);
+  }
+
+  return { itinerary: { ...current, ...withComputedTotals(current) }, report };
+}
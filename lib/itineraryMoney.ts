@@ -0,0 +1,69 @@
+import { Money, parseMoney } from '@/lib/currencyUtils';
+
+/**
+ * Structured costs stored next to the cost strings of an itinerary. The strings
+ * stay the display form (and what the model writes); the Money fields are parsed
+ * from them whenever an itinerary is written.
+ */
+
+interface CostedActivity {
+  cost?: string;
+  costMoney?: Money;
+}
+
+interface CostedDay {
+  totalCost?: string;
+  totalCostMoney?: Money;
+  activities?: CostedActivity[];
+}
+
+// Also matches a partial update, so only the cost strings present are parsed
+export interface CostedItinerary {
+  budget?: string;
+  budgetMoney?: Money | null;
+  days?: CostedDay[];
+  summary?: {
+    totalEstimatedCost?: string;
+    totalEstimatedCostMoney?: Money;
+  };
+}
+
+export interface MoneyParseResult {
+  // Non-empty cost strings that have no amount (and are not "Free" or similar)
+  unparsed: string[];
+}
+
+function toMoney(cost: string | undefined, unparsed: string[]): Money | undefined {
+  const money = parseMoney(cost);
+  if (!money && cost && cost.trim()) {
+    unparsed.push(cost);
+  }
+  return money || undefined;
+}
+
+/**
+ * Sets budgetMoney, totalEstimatedCostMoney, each day's totalCostMoney and each
+ * activity's costMoney from the matching strings. Works on documents and plain objects.
+ * Costs are read by parseMoney(), which agrees with parseCost() for a single traveler.
+ */
+export function applyMoneyFields(itinerary: CostedItinerary): MoneyParseResult {
+  const unparsed: string[] = [];
+
+  // A budget without an amount is stored as null, which marks the itinerary as parsed
+  if ('budget' in itinerary) {
+    itinerary.budgetMoney = toMoney(itinerary.budget, unparsed) ?? null;
+  }
+
+  (itinerary.days || []).forEach((day) => {
+    day.totalCostMoney = toMoney(day.totalCost, unparsed);
+    (day.activities || []).forEach((activity) => {
+      activity.costMoney = toMoney(activity.cost, unparsed);
+    });
+  });
+
+  if (itinerary.summary) {
+    itinerary.summary.totalEstimatedCostMoney = toMoney(itinerary.summary.totalEstimatedCost, unparsed);
+  }
+
+  return { unparsed };
+}
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import ItineraryRevision, { ItinerarySnapshot, RevisionAction } from '@/models/ItineraryRevision';
+import { Document } from 'mongoose';
+import { IItinerary } from '@/models/Itinerary';
+import { diffItineraries, ItineraryChange } from '@/lib/itineraryDiff';
+
+/**
+ * Revision history: every change to an itinerary's content stores an immutable
+ * snapshot with its author and a summary of what changed since the previous one.
+ */
+
+const SNAPSHOT_FIELDS: (keyof ItinerarySnapshot)[] = [
+  'title', 'destination', 'legs', 'startDate', 'endDate', 'party', 'pace', 'mobility',
+  'constraints', 'totalDays', 'budget', 'interests', 'days', 'summary',
+];
+
+// Retries when another request took the same version number
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Parsed from the strings by the write hooks, so left out of content fingerprints
+const PARSED_FIELDS = ['costMoney', 'totalCostMoney', 'totalEstimatedCostMoney', 'startMinutes', 'durationMinutes'];
+
+export function toSnapshot(itinerary: IItinerary | ItinerarySnapshot): ItinerarySnapshot {
+  const source: any = typeof (itinerary as any).toObject === 'function' ? (itinerary as any).toObject() : itinerary;
+  const snapshot: any = {};
+
+  SNAPSHOT_FIELDS.forEach((field) => {
+    if (source[field] !== undefined) {
+      snapshot[field] = JSON.parse(JSON.stringify(source[field]));
+    }
+  });
+
+  return snapshot;
+}
+
+/**
+ * Hash of the itinerary's plan (dates, days and summary). Any edit, regeneration,
+ * pin or restore changes it, while sharing and refinement messages do not.
+ */
+export function contentFingerprint(itinerary: IItinerary | ItinerarySnapshot): string {
+  const { startDate, totalDays, interests, days, summary } = toSnapshot(itinerary);
+  const content = JSON.stringify({ startDate, totalDays, interests, days, summary }, (key, value) => (
+    PARSED_FIELDS.includes(key) ? undefined : value
+  ));
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Replaces the itinerary document's content with a snapshot; fields the snapshot
+ * does not have (e.g. a start date added later) are cleared
+ */
+export function applySnapshot(itinerary: Document<unknown, {}, IItinerary>, snapshot: ItinerarySnapshot) {
+  SNAPSHOT_FIELDS.forEach((field) => {
+    itinerary.set(field, snapshot[field]);
+  });
+}
+
+const NOUNS = { day: ['day', 'days'], activity: ['activity', 'activities'] };
+
+/**
+ * One-line description of a diff, e.g. "1 day added, 2 activities changed";
+ * empty when no day, activity or summary changed
+ */
+export function summarizeChanges(changes: ItineraryChange[]): string {
+  const parts: string[] = [];
+  const verbs: { [type in ItineraryChange['type']]: string } = { added: 'added', removed: 'removed', modified: 'changed' };
+
+  (['day', 'activity'] as const).forEach((scope) => {
+    (['added', 'removed', 'modified'] as const).forEach((type) => {
+      const count = changes.filter((change) => change.scope === scope && change.type === type).length;
+      if (count > 0) {
+        parts.push(`${count} ${NOUNS[scope][count === 1 ? 0 : 1]} ${verbs[type]}`);
+      }
+    });
+  });
+
+  if (changes.some((change) => change.scope === 'summary')) {
+    parts.push('summary updated');
+  }
+
+  return parts.join(', ');
+}
+
+interface RevisionInput {
+  itinerary: IItinerary;
+  authorId: string;
+  action: RevisionAction;
+  // What the author did, e.g. "Regenerated day 2"; the diff summary is appended
+  description: string;
+  // The itinerary before the change; stored as a baseline when it has no history yet
+  previous?: ItinerarySnapshot;
+}
+
+/**
+ * Stores a revision of the itinerary's current content. Never throws: the change
+ * itself has already been saved, so a failure is logged instead.
+ */
+export async function recordRevision({ itinerary, authorId, action, description, previous }: RevisionInput) {
+  try {
+    for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+      const latest = await ItineraryRevision.findOne({ itineraryId: itinerary._id })
+        .sort({ version: -1 })
+        .select('version snapshot')
+        .lean();
+      let version = latest?.version || 0;
+
+      try {
+        if (!latest && previous) {
+          await ItineraryRevision.create({
+            itineraryId: itinerary._id,
+            version: ++version,
+            action: 'baseline',
+            summary: 'Version before revision history was recorded',
+            snapshot: previous,
+          });
+        }
+
+        const snapshot = toSnapshot(itinerary);
+        const base = latest?.snapshot || previous;
+        const changes = base ? summarizeChanges(diffItineraries(base, snapshot)) : '';
+
+        // Nothing to record when only non-versioned fields (e.g. sharing) changed
+        if (latest && JSON.stringify(latest.snapshot) === JSON.stringify(snapshot)) {
+          return;
+        }
+
+        await ItineraryRevision.create({
+          itineraryId: itinerary._id,
+          version: version + 1,
+          authorId,
+          action,
+          summary: changes ? `${description}: ${changes}` : description,
+          snapshot,
+        });
+        return;
+      } catch (error: any) {
+        if (error?.code !== 11000) {
+          throw error;
+        }
+      }
+    }
+    console.error(`Failed to record revision for itinerary ${itinerary._id}: version conflict`);
+  } catch (error) {
+    console.error(`Failed to record revision for itinerary ${itinerary._id}:`, error);
+  }
+}
+
+/**
+ * Changes between two stored versions of an itinerary, or null if either does not exist
+ */
+export async function diffRevisions(itineraryId: string, from: number, to: number) {
+  const revisions = await ItineraryRevision.find({ itineraryId, version: { $in: [from, to] } })
+    .select('version snapshot')
+    .lean();
+  const before = revisions.find((revision) => revision.version === from);
+  const after = revisions.find((revision) => revision.version === to);
+
+  return before && after ? diffItineraries(before.snapshot, after.snapshot) : null;
+}
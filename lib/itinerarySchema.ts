@@ -0,0 +1,189 @@
+import { IItinerary } from '@/models/Itinerary';
+import { PlannedDay } from '@/lib/tripLegs';
+
+/**
+ * Runtime validation for AI-generated itineraries.
+ * Mirrors the IItinerary / IDay / IActivity interfaces so that only
+ * structurally sound data is saved to the Itinerary model.
+ */
+
+export type GeneratedItinerary = Pick<
+  IItinerary,
+  'destination' | 'totalDays' | 'budget' | 'interests' | 'days' | 'summary' | 'legs' | 'startDate'
+  | 'party' | 'pace' | 'mobility' | 'constraints'
+>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationOptions {
+  expectedDays?: number;
+  // Leg assignment each day must follow on multi-city trips
+  dayPlan?: PlannedDay[];
+}
+
+export class ItineraryValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `AI response failed validation: ${issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join('; ')}${issues.length > 5 ? ` (and ${issues.length - 5} more)` : ''}`
+    );
+    this.name = 'ItineraryValidationError';
+    this.issues = issues;
+  }
+}
+
+const ACTIVITY_FIELDS = ['time', 'title', 'description', 'location', 'duration', 'cost', 'category'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkString(issues: ValidationIssue[], value: unknown, path: string, required = true) {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string' });
+  } else if (required && value.trim() === '') {
+    issues.push({ path, message: 'must not be empty' });
+  }
+}
+
+function checkStringArray(issues: ValidationIssue[], value: unknown, path: string) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array of strings' });
+    return;
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string') {
+      issues.push({ path: `${path}[${index}]`, message: 'must be a string' });
+    }
+  });
+}
+
+function checkActivity(issues: ValidationIssue[], activity: unknown, path: string) {
+  if (!isObject(activity)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  ACTIVITY_FIELDS.forEach((field) => {
+    checkString(issues, activity[field], `${path}.${field}`, field === 'time' || field === 'title');
+  });
+}
+
+function checkDay(
+  issues: ValidationIssue[],
+  day: unknown,
+  index: number,
+  path = `days[${index}]`,
+  planned?: PlannedDay
+) {
+  if (!isObject(day)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+
+  if (planned) {
+    if (day.leg !== planned.leg) {
+      issues.push({ path: `${path}.leg`, message: `must be ${planned.leg} (${planned.city})` });
+    }
+    if (Boolean(day.isTransfer) !== planned.isTransfer) {
+      issues.push({ path: `${path}.isTransfer`, message: `must be ${planned.isTransfer}` });
+    }
+  }
+
+  if (day.day !== index + 1) {
+    issues.push({ path: `${path}.day`, message: `must be ${index + 1}` });
+  }
+  checkString(issues, day.date, `${path}.date`);
+  checkString(issues, day.totalCost, `${path}.totalCost`);
+  checkString(issues, day.notes, `${path}.notes`, false);
+
+  if (!Array.isArray(day.activities) || day.activities.length === 0) {
+    issues.push({ path: `${path}.activities`, message: 'must be a non-empty array' });
+    return;
+  }
+  day.activities.forEach((activity: unknown, activityIndex: number) => {
+    checkActivity(issues, activity, `${path}.activities[${activityIndex}]`);
+  });
+}
+
+/**
+ * Validates parsed AI output and returns every problem found (empty when valid)
+ */
+export function validateItinerary(data: unknown, options: ValidationOptions = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(data)) {
+    issues.push({ path: '$', message: 'must be a JSON object' });
+    return issues;
+  }
+
+  checkString(issues, data.destination, 'destination');
+  checkString(issues, data.budget, 'budget');
+  checkStringArray(issues, data.interests, 'interests');
+
+  if (typeof data.totalDays !== 'number' || !Number.isInteger(data.totalDays) || data.totalDays < 1) {
+    issues.push({ path: 'totalDays', message: 'must be a positive integer' });
+  } else if (options.expectedDays !== undefined && data.totalDays !== options.expectedDays) {
+    issues.push({ path: 'totalDays', message: `must be ${options.expectedDays}` });
+  }
+
+  if (!Array.isArray(data.days) || data.days.length === 0) {
+    issues.push({ path: 'days', message: 'must be a non-empty array' });
+  } else {
+    const expectedDays = options.expectedDays ?? data.totalDays;
+    if (typeof expectedDays === 'number' && data.days.length !== expectedDays) {
+      issues.push({ path: 'days', message: `must contain exactly ${expectedDays} days, got ${data.days.length}` });
+    }
+    data.days.forEach((day: unknown, index: number) =>
+      checkDay(issues, day, index, undefined, options.dayPlan?.[index]));
+  }
+
+  if (!isObject(data.summary)) {
+    issues.push({ path: 'summary', message: 'must be an object' });
+  } else {
+    checkString(issues, data.summary.totalEstimatedCost, 'summary.totalEstimatedCost');
+    checkStringArray(issues, data.summary.highlights, 'summary.highlights');
+    checkStringArray(issues, data.summary.tips, 'summary.tips');
+  }
+
+  return issues;
+}
+
+/**
+ * Validates a single regenerated day; dayIndex is its zero-based position in the itinerary
+ */
+export function validateDay(data: unknown, dayIndex: number, planned?: PlannedDay): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkDay(issues, data, dayIndex, '$', planned);
+  return issues;
+}
+
+/**
+ * Validates a single regenerated activity
+ */
+export function validateActivity(data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  checkActivity(issues, data, '$');
+  return issues;
+}
+
+/**
+ * Validates a refinement response: { reply, itinerary }
+ */
+export function validateRefinement(data: unknown): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path: '$', message: 'must be a JSON object' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  checkString(issues, data.reply, 'reply');
+  validateItinerary(data.itinerary).forEach((issue) => {
+    issues.push({ path: issue.path === '$' ? 'itinerary' : `itinerary.${issue.path}`, message: issue.message });
+  });
+  return issues;
+}
@@ -0,0 +1,85 @@
+import Itinerary, { IGenerationProvenance, IItinerary, ITravelerParty } from '@/models/Itinerary';
+import { applyTripDates } from '@/lib/tripDates';
+import { adaptItinerary } from '@/lib/gemini';
+import { redateItinerary, toGenerationContext } from '@/lib/itineraryGeneration';
+import { geocodeItinerary, keepManualPins } from '@/lib/geocoding';
+import { recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+
+/**
+ * Trip templates: reusable plans saved from an itinerary. A template is an
+ * itinerary with isTemplate set and no dates, collaborators or refinement
+ * history; cloning one creates a new itinerary with its own dates and party.
+ */
+
+export interface CloneOptions {
+  title?: string;
+  // "yyyy-MM-dd", or null for a trip without dates
+  startDate?: string | null;
+  // Defaults to the party the template was planned for
+  party?: ITravelerParty;
+  // Ask the model to adapt costs and activities to the new dates and party
+  adapt?: boolean;
+}
+
+/**
+ * Saves a copy of the itinerary's content to the user's template library
+ */
+export async function saveAsTemplate(itinerary: IItinerary, userId: string, title?: string) {
+  const content = toSnapshot(itinerary);
+
+  const template = await Itinerary.create({
+    ...content,
+    userId,
+    title: title || content.title,
+    startDate: undefined,
+    endDate: undefined,
+    days: applyTripDates(content.days || [], null),
+    collaborators: [],
+    isPublic: false,
+    isTemplate: true,
+  });
+
+  await recordRevision({ itinerary: template, authorId: userId, action: 'create', description: `Saved as a template from "${itinerary.title}"` });
+  return template;
+}
+
+/**
+ * Creates a new itinerary for the user from a template, re-dated from the new start date.
+ * With `adapt` the model rescales costs and swaps activities for the new party and dates.
+ */
+export async function cloneTemplate(template: IItinerary, userId: string, { title, startDate, party, adapt }: CloneOptions) {
+  const content = toSnapshot(template);
+
+  const itinerary = new Itinerary({
+    ...content,
+    userId,
+    title: title || content.title,
+    startDate: startDate || undefined,
+    party: party || content.party,
+    templateId: template._id,
+    collaborators: [],
+    isPublic: false,
+  });
+  redateItinerary(itinerary);
+
+  if (adapt) {
+    let generation: IGenerationProvenance | undefined;
+    const adapted = await adaptItinerary(toGenerationContext(itinerary), content.party, {
+      userId,
+      onProvenance: (result) => {
+        generation = result;
+      },
+    });
+
+    itinerary.days = adapted.days;
+    itinerary.summary = adapted.summary;
+    itinerary.generation = generation;
+    redateItinerary(itinerary);
+    keepManualPins(content.days, itinerary.days);
+  }
+
+  await geocodeItinerary(itinerary);
+  await itinerary.save();
+  await recordRevision({ itinerary, authorId: userId, action: 'create', description: `Created from template "${template.title}"` });
+  return itinerary;
+}
@@ -0,0 +1,104 @@
+import mongoose, { Document } from 'mongoose';
+import Itinerary, { IItinerary } from '@/models/Itinerary';
+import ItineraryRevision from '@/models/ItineraryRevision';
+import Booking from '@/models/Booking';
+import Expense from '@/models/Expense';
+import User from '@/models/User';
+import { notifyUsers } from '@/lib/notifications';
+
+/**
+ * Deleting an itinerary moves it to its owner's trash (deletedAt is set), where it
+ * can be restored or deleted for good. Trashed itineraries are purged after
+ * TRASH_RETENTION_DAYS (default 30, 0 keeps them until deleted by hand).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purges started from list requests run at most this often per process
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPurgeStartedAt = 0;
+
+function getRetentionDays(): number {
+  const value = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return isNaN(value) || value < 0 ? 30 : value;
+}
+
+/**
+ * When a trashed itinerary will be purged, or null if trash is kept indefinitely
+ */
+export function getPurgeDate(deletedAt: Date): Date | null {
+  const days = getRetentionDays();
+  return days > 0 ? new Date(new Date(deletedAt).getTime() + days * DAY_MS) : null;
+}
+
+/**
+ * Moves the itinerary to the trash and tells its collaborators
+ */
+export async function trashItinerary(itinerary: Document<unknown, {}, IItinerary> & IItinerary, userId: string) {
+  itinerary.deletedAt = new Date();
+  itinerary.deletedBy = new mongoose.Types.ObjectId(userId);
+  await itinerary.save();
+
+  const collaborators = (itinerary.collaborators || []).map((id) => id.toString()).filter((id) => id !== userId);
+  if (collaborators.length > 0) {
+    const owner = await User.findById(userId).select('name email').lean();
+    await notifyUsers(collaborators, {
+      type: 'itinerary-trashed',
+      message: `${owner?.name || owner?.email || 'The owner'} moved "${itinerary.title}" to the trash. You no longer have access to it unless it is restored.`,
+      itineraryId: itinerary._id?.toString(),
+      actorId: userId,
+    });
+  }
+}
+
+/**
+ * Deletes itineraries with their revision history, bookings and expenses for good
+ */
+export async function purgeItineraries(ids: string[]) {
+  if (ids.length === 0) {
+    return;
+  }
+
+  await Itinerary.deleteMany({ _id: { $in: ids }, deletedAt: { $ne: null } });
+  await ItineraryRevision.deleteMany({ itineraryId: { $in: ids } });
+  await Booking.deleteMany({ itineraryId: { $in: ids } });
+  await Expense.deleteMany({ itineraryId: { $in: ids } });
+}
+
+/**
+ * Purges every itinerary that has been in the trash longer than the retention period
+ * and returns how many were purged. Run by admins or a scheduler through
+ * POST /api/admin/purge-trash, and in the background by purgeExpiredTrashInBackground().
+ * Never throws.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const days = getRetentionDays();
+  if (days === 0) {
+    return 0;
+  }
+
+  try {
+    const expired = await Itinerary.find({ deletedAt: { $ne: null, $lt: new Date(Date.now() - days * DAY_MS) } })
+      .select('_id')
+      .lean();
+    await purgeItineraries(expired.map((itinerary) => itinerary._id.toString()));
+    return expired.length;
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+    return 0;
+  }
+}
+
+/**
+ * Starts purgeExpiredTrash() without waiting for it, unless this process started one
+ * within the last PURGE_INTERVAL_MS. Called when itineraries are listed, so expired
+ * trash goes away even without a scheduled purge.
+ */
+export function purgeExpiredTrashInBackground() {
+  if (Date.now() - lastPurgeStartedAt < PURGE_INTERVAL_MS) {
+    return;
+  }
+
+  lastPurgeStartedAt = Date.now();
+  void purgeExpiredTrash();
+}
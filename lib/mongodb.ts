@@ -46,5 +46,35 @@ async function dbConnect(): Promise<typeof mongoose> {
   return cached.conn;
 }
 
+/**
+ * Turns a connection error into a message with setup hints for common issues
+ */
+export function getConnectionErrorMessage(dbError: any): string {
+  const errorMsg = dbError?.message || 'Unknown database error';
+  
+  // Provide more helpful error messages for common issues
+  let helpfulMessage = 'Database connection failed. ';
+  if (errorMsg.includes('authentication failed') || errorMsg.includes('bad auth')) {
+    helpfulMessage += 'Authentication failed. Please check:\n';
+    helpfulMessage += '1. Your MongoDB username is correct\n';
+    helpfulMessage += '2. Your MongoDB password is correct (replace <akshi> with actual password)\n';
+    helpfulMessage += '3. The password is URL-encoded if it contains special characters\n';
+    helpfulMessage += '4. Your database user has proper permissions';
+  } else if (errorMsg.includes('ENOTFOUND') || errorMsg.includes('getaddrinfo') || errorMsg.includes('whitelist') || errorMsg.includes('Could not connect')) {
+    helpfulMessage += 'Cannot connect to MongoDB server. Your IP address may not be whitelisted.\n';
+    helpfulMessage += 'Please:\n';
+    helpfulMessage += '1. Go to MongoDB Atlas: https://cloud.mongodb.com/\n';
+    helpfulMessage += '2. Click "Network Access" in the left sidebar\n';
+    helpfulMessage += '3. Click "Add IP Address"\n';
+    helpfulMessage += '4. Select "Allow Access from Anywhere" (for development)\n';
+    helpfulMessage += '5. Wait 1-2 minutes and try again\n';
+    helpfulMessage += 'See FIX_IP_WHITELIST.md for detailed instructions.';
+  } else {
+    helpfulMessage += 'Error: ' + errorMsg;
+  }
+
+  return helpfulMessage;
+}
+
 export default dbConnect;
 
@@ -0,0 +1,24 @@
+import Notification, { NotificationType } from '@/models/Notification';
+
+interface NotificationInput {
+  type: NotificationType;
+  message: string;
+  itineraryId?: string;
+  actorId?: string;
+}
+
+/**
+ * Stores the same notification for each user. Never throws: a lost notification
+ * must not fail the action that caused it.
+ */
+export async function notifyUsers(userIds: string[], notification: NotificationInput) {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  try {
+    await Notification.insertMany(userIds.map((userId) => ({ ...notification, userId })));
+  } catch (error) {
+    console.error('Failed to store notifications:', error);
+  }
+}
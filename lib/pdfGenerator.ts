@@ -1,6 +1,10 @@
 import jsPDF from 'jspdf';
 import { IItinerary, IDay, IActivity } from '@/models/Itinerary';
-import { formatCostToINR } from './currencyUtils';
+import { IBooking } from '@/models/Booking';
+import { CurrencyPreference, DEFAULT_CURRENCY_PREFERENCE, formatCost } from './currencyUtils';
+import { formatTripDate } from './tripDates';
+import { describeParty, formatPerPersonCost, PACE_OPTIONS } from './travelerParty';
+import { describeBookingDates, describeBookingTime, getBookingTypeLabel, isBookingOnDate } from './bookings';
 import { format } from 'date-fns';
 
 // Helper function to convert hex color to RGB
@@ -13,7 +17,11 @@ const hexToRgb = (hex: string) => {
   } : null;
 };
 
-export function downloadItineraryPDF(itinerary: IItinerary) {
+export function downloadItineraryPDF(
+  itinerary: IItinerary,
+  preference: CurrencyPreference = DEFAULT_CURRENCY_PREFERENCE,
+  bookings: IBooking[] = []
+) {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -63,14 +71,49 @@ export function downloadItineraryPDF(itinerary: IItinerary) {
     } : null;
   };
 
+  // One line per booking, with its time on the given day or its full dates
+  const addBooking = (booking: IBooking, date?: string) => {
+    const details = [
+      date ? describeBookingTime(booking, date) : describeBookingDates(booking),
+      booking.location,
+      booking.confirmationNumber && `Confirmation: ${booking.confirmationNumber}`,
+      booking.cost && formatCost(booking.cost, preference),
+    ].filter(Boolean);
+    addText(`${getBookingTypeLabel(booking.type)}: ${booking.provider} - ${details.join(' | ')}`, 10);
+  };
+
   // Title
   addText(itinerary.title, 20, true, '#1e40af');
   yPosition += sectionGap;
 
   // Destination and basic info
   addText(`Destination: ${itinerary.destination}`, 14, true);
+  if (itinerary.legs && itinerary.legs.length > 1) {
+    addText(`Route: ${itinerary.legs.map((leg) => `${leg.city} (${leg.nights} night${leg.nights > 1 ? 's' : ''})`).join(' → ')}`, 12);
+  }
   addText(`Duration: ${itinerary.totalDays} day${itinerary.totalDays > 1 ? 's' : ''}`, 12);
-  addText(`Budget: ${formatCostToINR(itinerary.budget)}`, 12);
+  if (itinerary.startDate && itinerary.endDate) {
+    addText(`Dates: ${formatTripDate(itinerary.startDate)} - ${formatTripDate(itinerary.endDate)}`, 12);
+  }
+  addText(`Budget: ${formatCost(itinerary.budget, preference)}`, 12);
+  if (itinerary.party) {
+    const pace = PACE_OPTIONS.find((option) => option.value === itinerary.pace);
+    addText(`Travelers: ${describeParty(itinerary.party)}${pace ? ` (${pace.label.toLowerCase()} pace)` : ''}`, 12);
+  }
+  if (itinerary.mobility && itinerary.mobility.length > 0) {
+    addText(`Mobility: ${itinerary.mobility.join(', ')}`, 12);
+  }
+  if (itinerary.constraints) {
+    const requirements = [
+      ...itinerary.constraints.dietary,
+      ...itinerary.constraints.accessibility,
+      ...itinerary.constraints.religious,
+      ...(itinerary.constraints.notes ? [itinerary.constraints.notes] : []),
+    ];
+    if (requirements.length > 0) {
+      addText(`Requirements: ${requirements.join(', ')}`, 12);
+    }
+  }
   
   if (itinerary.interests && itinerary.interests.length > 0) {
     addText(`Interests: ${itinerary.interests.join(', ')}`, 12);
@@ -84,7 +127,11 @@ export function downloadItineraryPDF(itinerary: IItinerary) {
     yPosition += 5;
     
     if (itinerary.summary.totalEstimatedCost) {
-      addText(`Total Estimated Cost: ${formatCostToINR(itinerary.summary.totalEstimatedCost)}`, 12, true);
+      addText(`Total Estimated Cost: ${formatCost(itinerary.summary.totalEstimatedCost, preference)}`, 12, true);
+      const perPerson = formatPerPersonCost(itinerary.summary.totalEstimatedCost, itinerary.party, preference);
+      if (perPerson) {
+        addText(`Per Person: ${perPerson}`, 12);
+      }
     }
     
     if (itinerary.summary.highlights && itinerary.summary.highlights.length > 0) {
@@ -115,9 +162,22 @@ export function downloadItineraryPDF(itinerary: IItinerary) {
       yPosition += 5;
       
       if (day.date) {
-        addText(day.date, 12);
+        addText(formatTripDate(day.date), 12);
+      }
+
+      if (itinerary.legs && itinerary.legs.length > 1 && day.leg !== undefined) {
+        const city = itinerary.legs[day.leg]?.city;
+        const fromCity = day.isTransfer && day.leg > 0 ? itinerary.legs[day.leg - 1]?.city : null;
+        addText(fromCity ? `Travel day: ${fromCity} → ${city}` : `City: ${city}`, 11, false, '#7c3aed');
       }
       
+      const dayBookings = bookings.filter((booking) => isBookingOnDate(booking, day.date));
+      if (dayBookings.length > 0) {
+        addText('Bookings:', 12, true, '#b45309');
+        dayBookings.forEach((booking) => addBooking(booking, day.date));
+        yPosition += 5;
+      }
+
       // Activities
       if (day.activities && day.activities.length > 0) {
         day.activities.forEach((activity: IActivity, activityIndex: number) => {
@@ -137,7 +197,10 @@ export function downloadItineraryPDF(itinerary: IItinerary) {
           // Activity details
           let details = [];
           if (activity.duration) details.push(`Duration: ${activity.duration}`);
-          if (activity.cost) details.push(`Cost: ${formatCostToINR(activity.cost)}`);
+          if (activity.cost) {
+            const perPerson = formatPerPersonCost(activity.cost, itinerary.party, preference);
+            details.push(`Cost: ${formatCost(activity.cost, preference)}${perPerson ? ` (${perPerson}/person)` : ''}`);
+          }
           if (activity.category) details.push(`Category: ${activity.category}`);
           
           if (details.length > 0) {
@@ -150,7 +213,8 @@ export function downloadItineraryPDF(itinerary: IItinerary) {
       
       // Day total cost
       if (day.totalCost) {
-        addText(`Day Total: ${formatCostToINR(day.totalCost)}`, 11, true, '#16a34a');
+        const perPerson = formatPerPersonCost(day.totalCost, itinerary.party, preference);
+        addText(`Day Total: ${formatCost(day.totalCost, preference)}${perPerson ? ` (${perPerson}/person)` : ''}`, 11, true, '#16a34a');
       }
       
       // Day notes
@@ -170,6 +234,15 @@ export function downloadItineraryPDF(itinerary: IItinerary) {
     });
   }
 
+  // Bookings that do not fall on any day of the trip
+  const otherBookings = bookings.filter((booking) => !itinerary.days?.some((day) => isBookingOnDate(booking, day.date)));
+  if (otherBookings.length > 0) {
+    checkPageBreak(30);
+    addText('Other Bookings', 16, true, '#b45309');
+    yPosition += 5;
+    otherBookings.forEach((booking) => addBooking(booking));
+  }
+
   // Footer
   const totalPages = doc.internal.pages.length - 1;
   for (let i = 1; i <= totalPages; i++) {
@@ -0,0 +1,72 @@
+import { GenerationParameters } from '@/lib/providers';
+
+/**
+ * Named, versioned variants of the full-itinerary prompt.
+ *
+ * Every template shares the trip details and JSON structure built in
+ * lib/gemini.ts; a version sets the closing instructions and the model
+ * parameters. Never edit a published version - add a new one so that the
+ * provenance stored on itineraries and jobs keeps meaning something.
+ */
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  instructions: string;
+  parameters: GenerationParameters;
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: 'itinerary-v1',
+    description: 'Original prompt with model default parameters',
+    instructions: 'Make the itinerary detailed, practical, and well-organized. Include specific times, locations, descriptions, durations, and costs for each activity. Ensure activities are realistic and geographically logical.',
+    parameters: {},
+  },
+  {
+    version: 'itinerary-v2',
+    description: 'Adds routing and opening-hours guidance at a lower temperature',
+    instructions: `Make the itinerary detailed, practical, and well-organized. Include specific times, locations, descriptions, durations, and costs for each activity.
+Group each day's activities by neighbourhood so that travel between them is short, leave realistic travel time between activities, and only schedule places during their usual opening hours.
+Prefer well-known, verifiable places over generic descriptions such as "a local restaurant".`,
+    parameters: { temperature: 0.6 },
+  },
+];
+
+export const DEFAULT_PROMPT_VERSION = 'itinerary-v1';
+
+export function getPromptTemplate(version: string = DEFAULT_PROMPT_VERSION): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find((candidate) => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}". Available: ${PROMPT_TEMPLATES.map((t) => t.version).join(', ')}`);
+  }
+  return template;
+}
+
+/**
+ * Picks the prompt version for a new itinerary.
+ *
+ * ITINERARY_PROMPT_VERSIONS splits traffic between versions for A/B tests,
+ * e.g. "itinerary-v1:80,itinerary-v2:20". Unset means DEFAULT_PROMPT_VERSION.
+ */
+export function selectPromptTemplate(random: () => number = Math.random): PromptTemplate {
+  const config = process.env.ITINERARY_PROMPT_VERSIONS;
+  if (!config) {
+    return getPromptTemplate();
+  }
+
+  const weights = config.split(',').map((entry) => {
+    const [version, weight] = entry.split(':').map((part) => part.trim());
+    return { template: getPromptTemplate(version), weight: weight === undefined ? 1 : Math.max(parseFloat(weight) || 0, 0) };
+  });
+
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  let pick = random() * total;
+  for (const entry of weights) {
+    pick -= entry.weight;
+    if (pick < 0) {
+      return entry.template;
+    }
+  }
+  return weights[weights.length - 1]?.template || getPromptTemplate();
+}
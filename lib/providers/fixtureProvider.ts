@@ -0,0 +1,200 @@
+import { formatINR, moneyToINR, parseMoney } from '@/lib/currencyUtils';
+import { GeneratedItinerary } from '@/lib/itinerarySchema';
+import { planLegDays } from '@/lib/tripLegs';
+import { addDays } from '@/lib/tripDates';
+import { parseCost, withComputedTotals } from '@/lib/budgetCompliance';
+import { partySize } from '@/lib/travelerParty';
+import {
+  GenerationTask,
+  ItineraryProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelStream,
+  TripRequest,
+} from './types';
+
+/**
+ * Offline provider that builds itineraries from fixed templates.
+ * The same trip request always produces the same itinerary, so it can be used
+ * in CI, for local development without network access, and in tests.
+ */
+
+const SLOTS = [
+  { time: '09:00 AM', duration: '3 hours', share: 0.3, label: 'Morning' },
+  { time: '01:00 PM', duration: '2 hours', share: 0.25, label: 'Lunch' },
+  { time: '04:00 PM', duration: '3 hours', share: 0.3, label: 'Afternoon' },
+  { time: '08:00 PM', duration: '2 hours', share: 0.15, label: 'Evening' },
+];
+
+const CATEGORY_BY_SLOT = ['sightseeing', 'food', 'culture', 'leisure'];
+
+// The trip budget in INR, counting ranges at their upper end
+function parseBudget(budget: string): number {
+  const money = parseMoney(budget);
+  const value = money ? moneyToINR(money) : 0;
+  return value > 0 ? value : 10000;
+}
+
+function buildItinerary(trip: TripRequest) {
+  const interests = trip.interests.length > 0 ? trip.interests : ['General Sightseeing'];
+  const dailyBudget = Math.round(parseBudget(trip.budget) / Math.max(trip.days, 1));
+  const plan = trip.legs && trip.legs.length > 1 ? planLegDays(trip.legs) : null;
+
+  const days = Array.from({ length: trip.days }, (_, dayIndex) => {
+    const dayNumber = dayIndex + 1;
+    const planned = plan?.[dayIndex];
+    const city = planned?.city || trip.destination;
+    const activities = SLOTS.map((slot, slotIndex) => {
+      const interest = interests[(dayIndex + slotIndex) % interests.length];
+
+      if (planned?.isTransfer && slotIndex === 0) {
+        return {
+          time: slot.time,
+          title: `Travel from ${planned.from} to ${city}`,
+          description: `Morning train from ${planned.from} to ${city}.`,
+          location: `${planned.from} Railway Station`,
+          duration: slot.duration,
+          cost: formatINR(Math.round(dailyBudget * slot.share)),
+          category: 'transfer',
+        };
+      }
+
+      return {
+        time: slot.time,
+        title: `${slot.label} ${interest} in ${city}`,
+        description: `${slot.label} of ${interest.toLowerCase()} around ${city} on day ${dayNumber}.`,
+        location: `${city} ${interest} District`,
+        duration: slot.duration,
+        cost: formatINR(Math.round(dailyBudget * slot.share)),
+        category: CATEGORY_BY_SLOT[slotIndex],
+      };
+    });
+
+    return {
+      day: dayNumber,
+      date: trip.startDate ? addDays(trip.startDate, dayIndex) : `Day ${dayNumber}`,
+      ...(planned ? { leg: planned.leg, isTransfer: planned.isTransfer } : {}),
+      activities,
+      totalCost: formatINR(dailyBudget),
+      notes: `Day ${dayNumber} notes: start early to make the most of ${city}.`,
+    };
+  });
+
+  return {
+    destination: trip.destination,
+    totalDays: trip.days,
+    budget: trip.budget,
+    interests,
+    days,
+    summary: {
+      totalEstimatedCost: formatINR(dailyBudget * trip.days),
+      highlights: interests.map((interest) => `${interest} in ${trip.destination}`),
+      tips: [
+        'Carry a printed copy of your itinerary.',
+        'Keep some local currency for small purchases.',
+      ],
+    },
+  };
+}
+
+function tripFromItinerary(itinerary: GeneratedItinerary): TripRequest {
+  return {
+    destination: itinerary.destination,
+    days: itinerary.totalDays,
+    budget: itinerary.budget,
+    interests: itinerary.interests,
+    legs: itinerary.legs,
+    startDate: itinerary.startDate,
+    party: itinerary.party,
+    pace: itinerary.pace,
+    mobility: itinerary.mobility,
+    constraints: itinerary.constraints,
+  };
+}
+
+// Alternative days/activities come from the same templates with the interests rotated,
+// so a regenerated day differs from the original but is still deterministic
+function buildAlternative(itinerary: GeneratedItinerary) {
+  const trip = tripFromItinerary(itinerary);
+  const interests = trip.interests.length > 1
+    ? [...trip.interests.slice(1), trip.interests[0]]
+    : [...trip.interests, 'Local Markets'];
+  return buildItinerary({ ...trip, interests });
+}
+
+function respond(task: GenerationTask): unknown {
+  switch (task.kind) {
+    case 'itinerary':
+      return buildItinerary(task.trip);
+    case 'day': {
+      const day = buildAlternative(task.itinerary).days[task.dayIndex];
+      return task.instructions ? { ...day, notes: `${day.notes} Adjusted for: ${task.instructions}.` } : day;
+    }
+    case 'activity': {
+      const day = buildAlternative(task.itinerary).days[task.dayIndex];
+      const activity = day.activities[task.activityIndex % day.activities.length];
+      const original = task.itinerary.days[task.dayIndex]?.activities[task.activityIndex];
+      return { ...activity, time: original?.time || activity.time };
+    }
+    case 'refine':
+      return {
+        reply: `Noted "${task.request}" and added it to your trip tips.`,
+        itinerary: {
+          ...task.itinerary,
+          summary: {
+            ...task.itinerary.summary,
+            tips: [...(task.itinerary.summary?.tips || []), `Requested: ${task.request}`],
+          },
+        },
+      };
+    case 'budget': {
+      // Scales every activity down so the trip lands 10% under budget
+      const factor = (task.budget * 0.9) / (task.budget + task.overBudgetBy);
+      const days = task.itinerary.days.map((day) => ({
+        ...day,
+        activities: day.activities.map((activity) => ({
+          ...activity,
+          cost: formatINR(Math.floor((parseCost(activity.cost) || 0) * factor)),
+        })),
+      }));
+      return { ...task.itinerary, ...withComputedTotals({ ...task.itinerary, days }) };
+    }
+    case 'adapt': {
+      // Rescales every activity to the new party size
+      const factor = partySize(task.itinerary.party) / partySize(task.templateParty);
+      const days = task.itinerary.days.map((day) => ({
+        ...day,
+        activities: day.activities.map((activity) => ({
+          ...activity,
+          cost: formatINR(Math.round((parseCost(activity.cost) || 0) * factor)),
+        })),
+      }));
+      return { ...task.itinerary, ...withComputedTotals({ ...task.itinerary, days }) };
+    }
+    case 'repair':
+      return respond(task.original);
+  }
+}
+
+export const fixtureProvider: ItineraryProvider = {
+  name: 'fixture',
+
+  async complete({ task }: ModelRequest): Promise<ModelResponse> {
+    return { text: JSON.stringify(respond(task)), model: 'fixture-v1' };
+  },
+
+  // Emits the same JSON as complete(), split into small chunks so that
+  // streaming consumers see days arrive one at a time
+  async stream(request: ModelRequest): Promise<ModelStream> {
+    const { text, model } = await fixtureProvider.complete(request);
+    const chunkSize = 200;
+
+    async function* chunks() {
+      for (let offset = 0; offset < text.length; offset += chunkSize) {
+        yield text.slice(offset, offset + chunkSize);
+      }
+    }
+
+    return { model, chunks: chunks() };
+  },
+};
@@ -0,0 +1,80 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GenerationParameters, ItineraryProvider, ModelRequest, ModelResponse, ModelStream } from './types';
+import { classifyModelError, recordModelFailure, withModelFallback } from './modelFallback';
+
+let genAI: GoogleGenerativeAI | null = null;
+
+// Create the client on first use so that importing this module (e.g. when
+// another provider is configured) never requires GEMINI_API_KEY
+function getClient(): GoogleGenerativeAI {
+  if (genAI) {
+    return genAI;
+  }
+
+  const apiKey = process.env.GEMINI_API_KEY;
+
+  if (!apiKey) {
+    const isVercel = process.env.VERCEL === '1';
+    const errorMessage = isVercel
+      ? 'GEMINI_API_KEY is not set. Please add it in your Vercel project settings: Settings → Environment Variables → Add GEMINI_API_KEY'
+      : 'Please define the GEMINI_API_KEY environment variable inside .env.local';
+    throw new Error(errorMessage);
+  }
+
+  genAI = new GoogleGenerativeAI(apiKey);
+  return genAI;
+}
+
+// Fallback chain, tried in order at call time - prioritize newer, stable models
+// Note: Model names should NOT include "models/" prefix for the GoogleGenerativeAI library
+const modelsToTry = [
+  'gemini-2.5-flash',           // Fast and efficient (recommended)
+  'gemini-flash-latest',        // Latest flash version
+  'gemini-2.5-pro',             // More capable version
+  'gemini-pro-latest',          // Latest pro version
+  'gemini-2.0-flash',           // Alternative flash version
+  'gemini-2.0-flash-001',       // Stable flash version
+];
+
+function getModel(modelName: string, parameters: GenerationParameters = {}) {
+  return getClient().getGenerativeModel({ model: modelName, generationConfig: parameters });
+}
+
+export const geminiProvider: ItineraryProvider = {
+  name: 'gemini',
+
+  async complete({ prompt, parameters }: ModelRequest): Promise<ModelResponse> {
+    console.log('Calling Gemini API...');
+
+    const { model, result } = await withModelFallback(modelsToTry, async (modelName) => {
+      const response = await getModel(modelName, parameters).generateContent(prompt);
+      return response.response.text();
+    });
+
+    return { text: result, model };
+  },
+
+  async stream({ prompt, parameters }: ModelRequest): Promise<ModelStream> {
+    console.log('Calling Gemini API (streaming)...');
+
+    // Fallback covers starting the stream; once chunks have been handed out a failure is final
+    const { model, result } = await withModelFallback(modelsToTry, (modelName) =>
+      getModel(modelName, parameters).generateContentStream(prompt)
+    );
+
+    async function* chunks() {
+      try {
+        for await (const chunk of result.stream) {
+          yield chunk.text();
+        }
+      } catch (error) {
+        if (classifyModelError(error) !== 'fatal') {
+          recordModelFailure(model);
+        }
+        throw error;
+      }
+    }
+
+    return { model, chunks: chunks() };
+  },
+};
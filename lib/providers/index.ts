@@ -0,0 +1,34 @@
+import { geminiProvider } from './geminiProvider';
+import { fixtureProvider } from './fixtureProvider';
+import { ItineraryProvider } from './types';
+
+export * from './types';
+
+/**
+ * Registered itinerary-generation providers, keyed by the name used in
+ * the ITINERARY_PROVIDER environment variable
+ */
+const providers: { [name: string]: ItineraryProvider } = {
+  [geminiProvider.name]: geminiProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+export function registerProvider(provider: ItineraryProvider) {
+  providers[provider.name] = provider;
+}
+
+/**
+ * Returns the configured provider (defaults to Gemini)
+ */
+export function getProvider(): ItineraryProvider {
+  const name = (process.env.ITINERARY_PROVIDER || geminiProvider.name).toLowerCase();
+  const provider = providers[name];
+
+  if (!provider) {
+    throw new Error(
+      `Unknown ITINERARY_PROVIDER "${name}". Available providers: ${Object.keys(providers).join(', ')}`
+    );
+  }
+
+  return provider;
+}
@@ -0,0 +1,131 @@
+/**
+ * Call-time fallback across a chain of models.
+ *
+ * Each model is retried with exponential backoff while its errors look transient,
+ * then the next model in the chain is tried. Models that keep failing trip a
+ * circuit breaker and are skipped until a cooldown has passed.
+ */
+
+export type ModelErrorKind =
+  // Worth retrying on the same model (rate limits, overload, network)
+  | 'retryable'
+  // This model cannot serve the request, but another one may (e.g. model not found)
+  | 'unavailable'
+  // Retrying will not help anywhere (bad API key, invalid request, blocked content)
+  | 'fatal';
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const NETWORK_ERROR = /fetch failed|network|socket hang up|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN/i;
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// The Gemini SDK reports HTTP failures only in the message, e.g. "[429 Too Many Requests] ..."
+export function getErrorStatus(error: any): number | undefined {
+  if (typeof error?.status === 'number') {
+    return error.status;
+  }
+  const match = /\[(\d{3})[ \]]/.exec(error?.message || '');
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function classifyModelError(error: any): ModelErrorKind {
+  const status = getErrorStatus(error);
+
+  if (status !== undefined) {
+    if (RETRYABLE_STATUSES.includes(status)) {
+      return 'retryable';
+    }
+    return status === 404 ? 'unavailable' : 'fatal';
+  }
+
+  return NETWORK_ERROR.test(error?.message || '') ? 'retryable' : 'fatal';
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+export function isCircuitOpen(model: string): boolean {
+  const state = circuits.get(model);
+  // Once the cooldown has passed the next call is let through as a trial
+  return !!state && state.openUntil > Date.now();
+}
+
+export function recordModelSuccess(model: string) {
+  circuits.delete(model);
+}
+
+export function recordModelFailure(model: string) {
+  const state = circuits.get(model) || { failures: 0, openUntil: 0 };
+  state.failures += 1;
+
+  if (state.failures >= readNumber('MODEL_CIRCUIT_THRESHOLD', 3)) {
+    state.openUntil = Date.now() + readNumber('MODEL_CIRCUIT_COOLDOWN_SECONDS', 60) * 1000;
+    console.warn(`Circuit opened for ${model} after ${state.failures} consecutive failures`);
+  }
+
+  circuits.set(model, state);
+}
+
+function backoffDelay(retry: number): number {
+  const base = readNumber('MODEL_RETRY_BASE_MS', 500);
+  // Full jitter keeps concurrent requests from retrying in lockstep
+  return Math.random() * base * 2 ** retry;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls `attempt` with each model in turn until one succeeds.
+ * Fatal errors are thrown straight away; otherwise the last error is thrown
+ * once every model has been tried or skipped.
+ */
+export async function withModelFallback<T>(
+  models: string[],
+  attempt: (model: string) => Promise<T>
+): Promise<{ model: string; result: T }> {
+  const maxRetries = readNumber('MODEL_MAX_RETRIES', 2);
+  let lastError: any = null;
+
+  for (const model of models) {
+    if (isCircuitOpen(model)) {
+      console.log(`Skipping ${model}: circuit open`);
+      continue;
+    }
+
+    for (let retry = 0; ; retry++) {
+      try {
+        const result = await attempt(model);
+        recordModelSuccess(model);
+        return { model, result };
+      } catch (error: any) {
+        const kind = classifyModelError(error);
+
+        if (kind === 'fatal') {
+          throw error;
+        }
+
+        lastError = error;
+        recordModelFailure(model);
+        console.warn(`${model} failed (${kind}): ${error.message || 'Unknown error'}`);
+
+        if (kind === 'unavailable' || retry >= maxRetries || isCircuitOpen(model)) {
+          break;
+        }
+
+        await sleep(backoffDelay(retry));
+      }
+    }
+  }
+
+  if (!lastError) {
+    throw new Error('Gemini is temporarily unavailable after repeated failures. Please try again in a minute.');
+  }
+  throw lastError;
+}
@@ -0,0 +1,80 @@
+import { GeneratedItinerary, ValidationIssue } from '@/lib/itinerarySchema';
+import { ILeg, ITravelerParty, ITripConstraints, TravelPace } from '@/models/Itinerary';
+
+/**
+ * Shared types for itinerary-generation providers
+ */
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface TripRequest {
+  destination: string;
+  days: number;
+  budget: string;
+  interests: string[];
+  // Ordered cities for multi-city trips; destination and days are derived from them
+  legs?: ILeg[];
+  // First day of the trip as "yyyy-MM-dd"
+  startDate?: string;
+  party?: ITravelerParty;
+  pace?: TravelPace;
+  mobility?: string[];
+  constraints?: ITripConstraints;
+  // Currency the traveler thinks in; costs are still generated in INR and converted for display
+  homeCurrency?: string;
+}
+
+/**
+ * What a model call is for. Providers that talk to a real model only need
+ * the prompt; offline providers use the task to build a deterministic answer.
+ */
+export type GenerationTask =
+  | { kind: 'itinerary'; trip: TripRequest }
+  | { kind: 'day'; itinerary: GeneratedItinerary; dayIndex: number; instructions?: string }
+  | { kind: 'activity'; itinerary: GeneratedItinerary; dayIndex: number; activityIndex: number; instructions?: string }
+  | { kind: 'refine'; itinerary: GeneratedItinerary; request: string; history: ConversationTurn[] }
+  // Amounts in INR
+  | { kind: 'budget'; itinerary: GeneratedItinerary; budget: number; overBudgetBy: number }
+  // A template cloned with new dates and party; templateParty is who the template was planned for
+  | { kind: 'adapt'; itinerary: GeneratedItinerary; templateParty?: ITravelerParty }
+  | { kind: 'repair'; original: GenerationTask; previous: string; issues: ValidationIssue[] };
+
+// Sampling parameters passed through to the model; unset fields use the model defaults
+export interface GenerationParameters {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ModelRequest {
+  task: GenerationTask;
+  prompt: string;
+  parameters?: GenerationParameters;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  model: string;
+  // Token counts, for providers whose API reports them
+  usage?: TokenUsage;
+}
+
+export interface ModelStream {
+  model: string;
+  chunks: AsyncIterable<string>;
+}
+
+export interface ItineraryProvider {
+  name: string;
+  complete(request: ModelRequest): Promise<ModelResponse>;
+  // Optional: providers without streaming support fall back to complete()
+  stream?(request: ModelRequest): Promise<ModelStream>;
+}
@@ -0,0 +1,170 @@
+import type { NextApiResponse } from 'next';
+import RateLimitCounter from '@/models/RateLimitCounter';
+
+/**
+ * Rate limiting backed by MongoDB, so limits hold across instances.
+ * Rules with a window length use a sliding window approximated from two fixed windows:
+ * the previous window's count, weighted by how much of it still overlaps the last
+ * `windowMs`, plus the current window's count. This keeps bursts either side of a
+ * window boundary within the limit. Rules with an explicit window (a calendar day) count
+ * that window only. Each window is one counter document that is only incremented while
+ * it has room, in a single atomic update, so concurrent requests cannot overshoot.
+ */
+
+const DUPLICATE_KEY = 11000;
+
+export class RateLimitError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterSeconds));
+  }
+}
+
+export interface RateLimitRule {
+  key: string;
+  limit: number;
+  message: string;
+  // Length of a window, e.g. one minute...
+  windowMs?: number;
+  // ...or an explicit window such as a calendar day
+  fixedWindow?: { start: Date; end: Date };
+}
+
+interface Window {
+  key: string;
+  start: number;
+  end: number;
+  // When the counter can be removed
+  expiresAt: Date;
+  // For sliding rules, the previous window and the share of it still inside the sliding window
+  previous?: { key: string; weight: number };
+}
+
+// Small allowance so that weights such as 2/3 do not round a whole request away
+const EPSILON = 1e-9;
+
+// The window the current time falls in
+function currentWindow(rule: RateLimitRule, now = Date.now()): Window {
+  if (rule.fixedWindow) {
+    const { start, end } = rule.fixedWindow;
+    return { key: `${rule.key}:${start.getTime()}`, start: start.getTime(), end: end.getTime(), expiresAt: end };
+  }
+
+  const length = Math.max(rule.windowMs || 0, 1000);
+  const index = Math.floor(now / length);
+  const start = index * length;
+  return {
+    key: `${rule.key}:${length}:${index}`,
+    start,
+    end: start + length,
+    // Kept through the next window, where it is the previous one
+    expiresAt: new Date(start + 2 * length),
+    previous: { key: `${rule.key}:${length}:${index - 1}`, weight: 1 - (now - start) / length },
+  };
+}
+
+async function countOf(key: string): Promise<number> {
+  const counter = await RateLimitCounter.findOne({ key }).lean();
+  return counter?.count || 0;
+}
+
+// Requests from the previous window that still count against the sliding window
+async function carriedOver(window: Window): Promise<number> {
+  return window.previous ? (await countOf(window.previous.key)) * window.previous.weight : 0;
+}
+
+/**
+ * How much of a rule's limit has been used
+ */
+export async function getUsage(rule: RateLimitRule): Promise<number> {
+  const window = currentWindow(rule);
+  const [current, carried] = await Promise.all([countOf(window.key), carriedOver(window)]);
+  return Math.ceil(current + carried - EPSILON);
+}
+
+// Milliseconds until the rule has room for one more request
+async function timeUntilRoom(rule: RateLimitRule, window: Window, now: number): Promise<number> {
+  if (!window.previous) {
+    return window.end - now;
+  }
+
+  const length = window.end - window.start;
+  const [current, previous] = await Promise.all([countOf(window.key), countOf(window.previous.key)]);
+
+  // Room opens in this window once enough of the previous one has slid out...
+  if (current < rule.limit && previous > 0) {
+    const weight = (rule.limit - 1 - current) / previous;
+    return Math.max(0, window.start + (1 - weight) * length - now);
+  }
+
+  // ...or in the next one, once enough of this one has
+  const weight = current > 0 ? Math.max(0, (rule.limit - 1) / current) : 1;
+  return window.end + (1 - Math.min(weight, 1)) * length - now;
+}
+
+// Adds one to a window's counter unless it is full; returns false when it is
+async function increment(key: string, limit: number, expiresAt: Date, retried = false): Promise<boolean> {
+  try {
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key, count: { $lt: limit } },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+      { upsert: true, new: true }
+    );
+    return !!counter;
+  } catch (error: any) {
+    if (error?.code !== DUPLICATE_KEY) {
+      throw error;
+    }
+    // The counter is full, so the upsert tried to create a second one. A concurrent
+    // request may also have just created it, so try once more against the existing one.
+    return retried ? false : increment(key, limit, expiresAt, true);
+  }
+}
+
+/**
+ * Counts one request against every rule, or throws RateLimitError for the first rule
+ * that is full (and counts it against none). Rules with a limit of 0 or less are disabled.
+ */
+export async function consumeRateLimits(rules: RateLimitRule[]) {
+  const counted: string[] = [];
+
+  for (const rule of rules.filter((entry) => entry.limit > 0)) {
+    const now = Date.now();
+    const window = currentWindow(rule, now);
+    // Room left in the current window once the previous window's share is counted
+    const room = Math.floor(rule.limit - (await carriedOver(window)) + EPSILON);
+
+    if (room <= 0 || !(await increment(window.key, room, window.expiresAt))) {
+      await Promise.all(counted.map((key) => RateLimitCounter.updateOne({ key }, { $inc: { count: -1 } })));
+      throw new RateLimitError(rule.message, (await timeUntilRoom(rule, window, now)) / 1000);
+    }
+
+    counted.push(window.key);
+  }
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  if (seconds < 60 * 60) {
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.ceil(seconds / (60 * 60));
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+/**
+ * Responds with 429 and a Retry-After header
+ */
+export function sendRateLimitError(res: NextApiResponse, error: RateLimitError) {
+  res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  return res.status(429).json({
+    message: `${error.message} Please try again in ${describeWait(error.retryAfterSeconds)}.`,
+    retryAfter: error.retryAfterSeconds,
+  });
+}
@@ -0,0 +1,73 @@
+import type { NextApiResponse } from 'next';
+
+/**
+ * Helpers for Server-Sent Events, used by streaming API routes and the pages that consume them
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Prepares an API response for streaming events
+ */
+export function openEventStream(res: NextApiResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Prevent compression and proxy buffering from holding back events
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  });
+}
+
+export function sendEvent(res: NextApiResponse, event: string, data: any) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Reads an event stream from a fetch() response, calling onEvent for each event.
+ * Used instead of EventSource because generation needs a POST body.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      const raw = buffer.slice(0, separator);
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      raw.split('\n').forEach((line) => {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trim());
+        }
+      });
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+      }
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { ITravelerParty, TravelPace } from '@/models/Itinerary';
+import { CurrencyPreference, formatMoney, moneyToINR, parseMoney } from '@/lib/currencyUtils';
+
+/**
+ * Helpers for the travelling party: who is going, how fast they like to travel
+ * and any mobility constraints. Generated costs are totals for the whole party.
+ */
+
+export const PACE_OPTIONS: { value: TravelPace; label: string; description: string }[] = [
+  { value: 'relaxed', label: 'Relaxed', description: '2-3 activities a day with plenty of downtime' },
+  { value: 'moderate', label: 'Moderate', description: '3-4 activities a day' },
+  { value: 'packed', label: 'Packed', description: 'As much as possible, early starts and late finishes' },
+];
+
+export const MOBILITY_OPTIONS = [
+  'Wheelchair user',
+  'Limited walking',
+  'Avoid stairs',
+  'Travelling with a stroller',
+];
+
+export const DEFAULT_PARTY: ITravelerParty = { adults: 1, childAges: [], seniors: 0 };
+
+const MAX_TRAVELERS = 20;
+
+function toCount(value: unknown, min: number): number {
+  const count = parseInt(String(value), 10);
+  return Number.isInteger(count) ? Math.min(Math.max(count, min), MAX_TRAVELERS) : min;
+}
+
+/**
+ * Cleans up the party submitted by the create form; at least one adult or senior is required
+ */
+export function normalizeParty(raw: any): ITravelerParty {
+  const seniors = toCount(raw?.seniors, 0);
+  const adults = toCount(raw?.adults, seniors > 0 ? 0 : 1);
+  const childAges = Array.isArray(raw?.childAges)
+    ? raw.childAges
+      .map((age: unknown) => parseInt(String(age), 10))
+      .filter((age: number) => Number.isInteger(age) && age >= 0 && age < 18)
+      .slice(0, MAX_TRAVELERS)
+    : [];
+
+  return { adults, childAges, seniors };
+}
+
+export function normalizePace(value: unknown): TravelPace | undefined {
+  return PACE_OPTIONS.find((option) => option.value === value)?.value;
+}
+
+export function normalizeMobility(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item) => MOBILITY_OPTIONS.includes(item)) : [];
+}
+
+export function partySize(party?: ITravelerParty | null): number {
+  if (!party) {
+    return 1;
+  }
+  return Math.max(party.adults + party.childAges.length + party.seniors, 1);
+}
+
+/**
+ * e.g. "2 adults, 2 children (ages 4, 9), 1 senior"
+ */
+export function describeParty(party: ITravelerParty): string {
+  const parts: string[] = [];
+
+  if (party.adults > 0) {
+    parts.push(`${party.adults} adult${party.adults > 1 ? 's' : ''}`);
+  }
+  if (party.childAges.length > 0) {
+    const count = party.childAges.length;
+    parts.push(`${count} child${count > 1 ? 'ren' : ''} (age${count > 1 ? 's' : ''} ${party.childAges.join(', ')})`);
+  }
+  if (party.seniors > 0) {
+    parts.push(`${party.seniors} senior${party.seniors > 1 ? 's' : ''}`);
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Splits a party total evenly per traveler, or returns null for a solo traveler
+ */
+export function formatPerPersonCost(
+  cost: string | undefined | null,
+  party?: ITravelerParty | null,
+  preference?: CurrencyPreference
+): string | null {
+  const size = partySize(party);
+  if (size <= 1 || !cost) {
+    return null;
+  }
+
+  const money = parseMoney(cost);
+  return money ? formatMoney(Math.round(moneyToINR(money) / size), preference) : null;
+}
@@ -0,0 +1,149 @@
+import { IActivity, IItinerary, ITripConstraints } from '@/models/Itinerary';
+
+/**
+ * Dietary, accessibility and religious requirements for a trip, and a
+ * keyword-based checker that flags generated activities which appear to
+ * violate them. The checker is a heuristic: it points travelers at activities
+ * worth double-checking rather than proving a violation.
+ */
+
+export const DIETARY_OPTIONS = ['Vegetarian', 'Vegan', 'Gluten-free', 'Dairy-free', 'Nut allergy'];
+export const ACCESSIBILITY_OPTIONS = ['Wheelchair access', 'Step-free access', 'Visual impairment', 'Hearing impairment'];
+export const RELIGIOUS_OPTIONS = ['Halal', 'Kosher', 'No alcohol', 'No pork', 'No beef', 'Modest dress'];
+
+export const EMPTY_CONSTRAINTS: ITripConstraints = { dietary: [], accessibility: [], religious: [], notes: '' };
+
+export interface ConstraintViolation {
+  dayIndex: number;
+  activityIndex: number;
+  constraint: string;
+  reason: string;
+}
+
+interface ConstraintRule {
+  reason: string;
+  pattern: RegExp;
+  // Activity categories that violate the constraint on their own
+  categories?: string[];
+  // Text that shows the activity already caters for the constraint
+  unless?: RegExp;
+}
+
+const words = (list: string[]) => new RegExp(`\\b(${list.join('|')})s?\\b`, 'i');
+
+const MEAT = ['meat', 'steak', 'steakhouse', 'barbecue', 'bbq', 'chicken', 'beef', 'pork', 'lamb', 'mutton', 'bacon', 'ham', 'sausage', 'kebab', 'fish', 'seafood', 'sushi', 'prawn', 'shrimp', 'crab', 'lobster', 'oyster'];
+const DAIRY = ['cheese', 'dairy', 'gelato', 'ice cream', 'milk', 'milkshake', 'butter', 'yogurt', 'cream'];
+const ALCOHOL = ['bar', 'pub', 'pub crawl', 'brewery', 'winery', 'vineyard', 'wine', 'beer', 'cocktail', 'sake', 'whisky', 'whiskey', 'distillery', 'tasting room'];
+const PORK = ['pork', 'bacon', 'ham', 'prosciutto', 'chorizo', 'salami', 'lechon'];
+const SHELLFISH = ['shellfish', 'prawn', 'shrimp', 'crab', 'lobster', 'oyster', 'mussel', 'clam'];
+
+const STRENUOUS: ConstraintRule = {
+  reason: 'may involve steps, steep paths or strenuous activity',
+  pattern: words(['hike', 'hiking', 'trek', 'trekking', 'climb', 'climbing', 'stairs', 'steps', 'steep', 'cobblestone', 'kayak', 'kayaking', 'rafting', 'snorkel', 'snorkeling', 'scuba', 'zipline', 'bike tour', 'cycling']),
+  categories: ['adventure'],
+  unless: /\b(wheelchair|step-free|accessible)\b/i,
+};
+
+const RULES: { [constraint: string]: ConstraintRule[] } = {
+  Vegetarian: [{ reason: 'mentions meat or fish', pattern: words(MEAT), unless: /\b(vegetarian|vegan|plant-based)\b/i }],
+  Vegan: [
+    { reason: 'mentions meat or fish', pattern: words(MEAT), unless: /\b(vegan|plant-based)\b/i },
+    { reason: 'mentions dairy or eggs', pattern: words([...DAIRY, 'egg', 'honey']), unless: /\b(vegan|plant-based)\b/i },
+  ],
+  'Gluten-free': [{ reason: 'mentions bread, pasta or baked goods', pattern: words(['bakery', 'pastry', 'pastries', 'bread', 'pasta', 'pizza', 'croissant', 'noodle', 'dumpling', 'beer']), unless: /\bgluten-free\b/i }],
+  'Dairy-free': [{ reason: 'mentions dairy', pattern: words(DAIRY), unless: /\b(dairy-free|vegan)\b/i }],
+  'Nut allergy': [{ reason: 'mentions nuts', pattern: words(['nut', 'peanut', 'almond', 'cashew', 'pistachio', 'hazelnut', 'praline', 'satay', 'baklava']), unless: /\bnut-free\b/i }],
+  'Wheelchair access': [STRENUOUS],
+  'Step-free access': [STRENUOUS],
+  Halal: [
+    { reason: 'mentions pork', pattern: words(PORK), unless: /\bhalal\b/i },
+    { reason: 'mentions alcohol', pattern: words(ALCOHOL) },
+  ],
+  Kosher: [
+    { reason: 'mentions pork', pattern: words(PORK), unless: /\bkosher\b/i },
+    { reason: 'mentions shellfish', pattern: words(SHELLFISH), unless: /\bkosher\b/i },
+  ],
+  'No alcohol': [{ reason: 'mentions alcohol', pattern: words(ALCOHOL), unless: /\b(alcohol-free|non-alcoholic)\b/i }],
+  'No pork': [{ reason: 'mentions pork', pattern: words(PORK) }],
+  'No beef': [{ reason: 'mentions beef', pattern: words(['beef', 'steak', 'steakhouse', 'burger', 'brisket']) }],
+  // Party mobility needs (see lib/travelerParty) are checked the same way
+  'Wheelchair user': [STRENUOUS],
+  'Limited walking': [STRENUOUS],
+  'Avoid stairs': [STRENUOUS],
+};
+
+function cleanList(value: unknown, options: string[]): string[] {
+  return Array.isArray(value) ? options.filter((option) => value.includes(option)) : [];
+}
+
+/**
+ * Keeps only known options from a submitted constraints object
+ */
+export function normalizeConstraints(raw: any): ITripConstraints {
+  return {
+    dietary: cleanList(raw?.dietary, DIETARY_OPTIONS),
+    accessibility: cleanList(raw?.accessibility, ACCESSIBILITY_OPTIONS),
+    religious: cleanList(raw?.religious, RELIGIOUS_OPTIONS),
+    notes: typeof raw?.notes === 'string' ? raw.notes.trim().slice(0, 500) : '',
+  };
+}
+
+export function hasConstraints(constraints?: ITripConstraints | null): boolean {
+  return !!constraints && (
+    constraints.dietary.length > 0 ||
+    constraints.accessibility.length > 0 ||
+    constraints.religious.length > 0 ||
+    !!constraints.notes
+  );
+}
+
+function checkActivity(activity: IActivity, constraint: string): string | null {
+  const text = [activity.title, activity.description, activity.location].filter(Boolean).join(' ');
+
+  for (const rule of RULES[constraint] || []) {
+    if (rule.unless && rule.unless.test(text)) {
+      continue;
+    }
+    if (rule.categories?.includes((activity.category || '').toLowerCase()) || rule.pattern.test(text)) {
+      return rule.reason;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Flags activities whose category or description appear to violate the trip's constraints
+ */
+export function checkConstraints(
+  itinerary: Pick<IItinerary, 'days' | 'constraints' | 'mobility'>
+): ConstraintViolation[] {
+  const { constraints } = itinerary;
+  const active = [
+    ...(constraints?.dietary || []),
+    ...(constraints?.accessibility || []),
+    ...(constraints?.religious || []),
+    ...(itinerary.mobility || []),
+  ].filter((constraint, index, all) => RULES[constraint] && all.indexOf(constraint) === index);
+
+  if (active.length === 0) {
+    return [];
+  }
+
+  const violations: ConstraintViolation[] = [];
+  (itinerary.days || []).forEach((day, dayIndex) => {
+    (day.activities || []).forEach((activity, activityIndex) => {
+      if (activity.category === 'transfer') {
+        return;
+      }
+      active.forEach((constraint) => {
+        const reason = checkActivity(activity, constraint);
+        if (reason) {
+          violations.push({ dayIndex, activityIndex, constraint, reason });
+        }
+      });
+    });
+  });
+
+  return violations;
+}
@@ -0,0 +1,95 @@
+import { IDay } from '@/models/Itinerary';
+
+/**
+ * Calendar helpers for itineraries with a start date.
+ *
+ * Trip dates are stored as "yyyy-MM-dd" strings and calculated in UTC so that
+ * a day never shifts when the server and browser are in different time zones.
+ */
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export interface TripDay {
+  date: string;
+  weekday: string;
+}
+
+function parseDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/**
+ * Returns the value as "yyyy-MM-dd" if it is a valid calendar date, otherwise null
+ */
+export function normalizeStartDate(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const date = parseDate(value.trim().slice(0, 10));
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+export function addDays(startDate: string, offset: number): string {
+  const date = parseDate(startDate);
+  if (!date) {
+    throw new Error(`Invalid date: ${startDate}`);
+  }
+  date.setUTCDate(date.getUTCDate() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+export function getWeekday(date: string): string {
+  const parsed = parseDate(date);
+  return parsed ? WEEKDAYS[parsed.getUTCDay()] : '';
+}
+
+/**
+ * Last day of a trip starting on startDate (a 1-day trip ends the same day)
+ */
+export function getEndDate(startDate: string, totalDays: number): string {
+  return addDays(startDate, Math.max(totalDays, 1) - 1);
+}
+
+export function getTripDays(startDate: string, totalDays: number): TripDay[] {
+  return Array.from({ length: totalDays }, (_, index) => {
+    const date = addDays(startDate, index);
+    return { date, weekday: getWeekday(date) };
+  });
+}
+
+/**
+ * Sets the calendar date and weekday of every day from the start date,
+ * or falls back to "Day N" labels when the trip has no start date
+ */
+export function applyTripDates(days: IDay[], startDate?: string | null): IDay[] {
+  return days.map((day, index) => {
+    if (!startDate) {
+      return { ...day, date: `Day ${index + 1}`, weekday: undefined };
+    }
+    const date = addDays(startDate, index);
+    return { ...day, date, weekday: getWeekday(date) };
+  });
+}
+
+/**
+ * Formats a trip date for display, e.g. "Monday, 2 November 2026"
+ */
+export function formatTripDate(date: string, options: { weekday?: boolean; year?: boolean } = {}): string {
+  const parsed = parseDate(date);
+  if (!parsed) {
+    return date;
+  }
+  const { weekday = true, year = true } = options;
+  const text = `${parsed.getUTCDate()} ${MONTHS[parsed.getUTCMonth()]}${year ? ` ${parsed.getUTCFullYear()}` : ''}`;
+  return weekday ? `${WEEKDAYS[parsed.getUTCDay()]}, ${text}` : text;
+}
+
+export function isCalendarDate(value: string | undefined): boolean {
+  return !!value && parseDate(value) !== null;
+}
@@ -0,0 +1,71 @@
+import { ILeg } from '@/models/Itinerary';
+
+/**
+ * Helpers for multi-city trips made of ordered legs.
+ *
+ * A leg is a city and the number of nights spent there. Each leg after the
+ * first starts with a transfer day (travel from the previous city), and the
+ * trip ends with a departure day in the last city, so a trip has
+ * (total nights + 1) days.
+ */
+
+export interface PlannedDay {
+  day: number;
+  leg: number;
+  city: string;
+  isTransfer: boolean;
+  // City travelled from on transfer days
+  from?: string;
+}
+
+/**
+ * Cleans up legs submitted by the create form, dropping empty rows
+ */
+export function normalizeLegs(raw: unknown): ILeg[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .map((leg: any) => ({
+      city: typeof leg?.city === 'string' ? leg.city.trim() : '',
+      nights: parseInt(leg?.nights, 10),
+    }))
+    .filter((leg) => leg.city && Number.isInteger(leg.nights) && leg.nights > 0);
+}
+
+export function legsToDestination(legs: ILeg[]): string {
+  return legs.map((leg) => leg.city).join(' → ');
+}
+
+export function totalDaysForLegs(legs: ILeg[]): number {
+  return legs.reduce((total, leg) => total + leg.nights, 0) + 1;
+}
+
+/**
+ * Assigns every day of the trip to a leg and marks the inter-city transfer days
+ */
+export function planLegDays(legs: ILeg[]): PlannedDay[] {
+  const plan: PlannedDay[] = [];
+
+  legs.forEach((leg, legIndex) => {
+    for (let night = 0; night < leg.nights; night++) {
+      const isTransfer = legIndex > 0 && night === 0;
+      plan.push({
+        day: plan.length + 1,
+        leg: legIndex,
+        city: leg.city,
+        isTransfer,
+        from: isTransfer ? legs[legIndex - 1].city : undefined,
+      });
+    }
+  });
+
+  // Departure day in the final city
+  const lastIndex = legs.length - 1;
+  if (lastIndex >= 0) {
+    plan.push({ day: plan.length + 1, leg: lastIndex, city: legs[lastIndex].city, isTransfer: false });
+  }
+
+  return plan;
+}
@@ -0,0 +1,130 @@
+import mongoose from 'mongoose';
+import UsageRecord, { UsageOutcome } from '@/models/UsageRecord';
+import type { TokenUsage } from '@/lib/providers';
+
+/**
+ * Ledger of model calls: one UsageRecord per provider call, including repair calls
+ * and calls that failed, so cost can be broken down by user, feature and model.
+ */
+
+// USD per million tokens; models not listed here are recorded at zero cost
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-flash-latest': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-pro-latest': { input: 1.25, output: 10 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-001': { input: 0.1, output: 0.4 },
+};
+
+// Rough average for English text and JSON
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateCostUsd(model: string | undefined, usage: TokenUsage): number {
+  const pricing = model ? MODEL_PRICING[model] : undefined;
+  if (!pricing) {
+    return 0;
+  }
+  return (usage.promptTokens * pricing.input + usage.responseTokens * pricing.output) / 1_000_000;
+}
+
+export interface UsageEntry {
+  userId?: string;
+  feature: string;
+  repair: boolean;
+  provider: string;
+  model?: string;
+  prompt: string;
+  // Text the model returned, if any
+  response?: string;
+  // Counts reported by the provider; estimated from the text when missing
+  usage?: TokenUsage;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  error?: string;
+}
+
+/**
+ * Stores one model call. Never throws: losing a ledger entry must not fail the generation.
+ */
+export async function recordUsage(entry: UsageEntry) {
+  const usage = entry.usage || {
+    promptTokens: estimateTokens(entry.prompt),
+    responseTokens: estimateTokens(entry.response || ''),
+  };
+
+  try {
+    await UsageRecord.create({
+      userId: entry.userId && mongoose.Types.ObjectId.isValid(entry.userId) ? entry.userId : undefined,
+      feature: entry.feature,
+      repair: entry.repair,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: usage.promptTokens,
+      responseTokens: usage.responseTokens,
+      estimated: !entry.usage,
+      costUsd: estimateCostUsd(entry.model, usage),
+      latencyMs: entry.latencyMs,
+      outcome: entry.outcome,
+      error: entry.error,
+    });
+  } catch (error) {
+    console.error('Failed to record model usage:', error);
+  }
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  responseTokens: number;
+  costUsd: number;
+}
+
+// $group fields shared by the user and admin reports
+export const USAGE_TOTALS_GROUP = {
+  calls: { $sum: 1 },
+  failedCalls: { $sum: { $cond: [{ $in: ['$outcome', ['invalid', 'error']] }, 1, 0] } },
+  promptTokens: { $sum: '$promptTokens' },
+  responseTokens: { $sum: '$responseTokens' },
+  costUsd: { $sum: '$costUsd' },
+};
+
+export function toUsageTotals(group?: Partial<UsageTotals>): UsageTotals {
+  return {
+    calls: group?.calls || 0,
+    failedCalls: group?.failedCalls || 0,
+    promptTokens: group?.promptTokens || 0,
+    responseTokens: group?.responseTokens || 0,
+    costUsd: group?.costUsd || 0,
+  };
+}
+
+/**
+ * Totals and per-feature breakdown of a user's model usage, optionally since a date
+ */
+export async function getUserUsage(userId: string, since?: Date) {
+  const match: Record<string, any> = { userId: new mongoose.Types.ObjectId(userId) };
+  if (since) {
+    match.createdAt = { $gte: since };
+  }
+
+  const [result] = await UsageRecord.aggregate([
+    { $match: match },
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, ...USAGE_TOTALS_GROUP } }],
+        byFeature: [{ $group: { _id: '$feature', ...USAGE_TOTALS_GROUP } }, { $sort: { costUsd: -1 } }],
+      },
+    },
+  ]);
+
+  return {
+    totals: toUsageTotals(result?.totals[0]),
+    byFeature: (result?.byFeature || []).map((group: any) => ({ feature: group._id, ...toUsageTotals(group) })),
+  };
+}
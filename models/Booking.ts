@@ -0,0 +1,94 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { Money } from '@/lib/currencyUtils';
+import { parseMoney } from '@/lib/currencyUtils';
+import { MoneySchema } from '@/models/Itinerary';
+
+export type BookingType = 'flight' | 'stay' | 'train' | 'restaurant' | 'other';
+
+// A file attached to a booking, e.g. the e-ticket; data is only loaded for downloads
+export interface IBookingAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  data?: Buffer;
+}
+
+/**
+ * A confirmed booking (flight, hotel stay, train ticket, restaurant reservation)
+ * attached to an itinerary, as opposed to the AI-suggested activities
+ */
+export interface IBooking {
+  _id?: string;
+  itineraryId: mongoose.Types.ObjectId;
+  // The user who added the booking
+  createdBy: mongoose.Types.ObjectId;
+  type: BookingType;
+  // Airline, hotel, railway or restaurant, e.g. "IndiGo 6E 2134"
+  provider: string;
+  confirmationNumber?: string;
+  // Local times at the destination as "yyyy-MM-ddTHH:mm"; end is check-out or arrival
+  start: string;
+  end?: string;
+  location?: string;
+  // Canonical INR string, like activity costs
+  cost?: string;
+  costMoney?: Money;
+  attachment?: IBookingAttachment;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const BookingSchema = new Schema<IBooking>(
+  {
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Itinerary',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['flight', 'stay', 'train', 'restaurant', 'other'],
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    confirmationNumber: String,
+    start: {
+      type: String,
+      required: true,
+    },
+    end: String,
+    location: String,
+    cost: String,
+    costMoney: MoneySchema,
+    attachment: {
+      filename: String,
+      contentType: String,
+      size: Number,
+      data: {
+        type: Buffer,
+        select: false,
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+BookingSchema.pre('save', function () {
+  this.costMoney = (this.cost && parseMoney(this.cost)) || undefined;
+});
+
+BookingSchema.index({ itineraryId: 1, start: 1 });
+
+const Booking: Model<IBooking> = mongoose.models.Booking || mongoose.model<IBooking>('Booking', BookingSchema);
+
+export default Booking;
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+export type ExpenseCategory = 'food' | 'transport' | 'accommodation' | 'activities' | 'shopping' | 'other';
+
+/**
+ * Money actually spent on a trip, logged against one of its days
+ */
+export interface IExpense {
+  _id?: string;
+  itineraryId: mongoose.Types.ObjectId;
+  // The user who logged the expense
+  createdBy: mongoose.Types.ObjectId;
+  // The traveler who paid: the owner or a collaborator
+  paidBy: mongoose.Types.ObjectId;
+  // As paid, in `currency`
+  amount: number;
+  currency: string;
+  // The amount in INR at the rate of `date`
+  amountINR: number;
+  rate: number;
+  // "yyyy-MM-dd" the money was spent
+  date: string;
+  // Date of the market rate used; missing when the approximate built-in rate was used
+  rateDate?: string;
+  category: ExpenseCategory;
+  dayIndex: number;
+  // Optional link to one of the day's activities
+  activityIndex?: number;
+  description?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ExpenseSchema = new Schema<IExpense>(
+  {
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Itinerary',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    paidBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    amountINR: {
+      type: Number,
+      required: true,
+    },
+    rate: {
+      type: Number,
+      required: true,
+    },
+    date: {
+      type: String,
+      required: true,
+    },
+    rateDate: String,
+    category: {
+      type: String,
+      enum: ['food', 'transport', 'accommodation', 'activities', 'shopping', 'other'],
+      required: true,
+    },
+    dayIndex: {
+      type: Number,
+      required: true,
+    },
+    activityIndex: Number,
+    description: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ExpenseSchema.index({ itineraryId: 1, dayIndex: 1 });
+
+const Expense: Model<IExpense> = mongoose.models.Expense || mongoose.model<IExpense>('Expense', ExpenseSchema);
+
+export default Expense;
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { GeneratedItinerary } from '@/lib/itinerarySchema';
+import { GenerationProvenanceSchema, IGenerationProvenance } from './Itinerary';
+
+export interface IGenerationCache {
+  _id?: string;
+  // Hash of the normalized trip request, see lib/generationCache.ts
+  key: string;
+  destination: string;
+  itinerary: GeneratedItinerary;
+  provenance?: IGenerationProvenance;
+  hits: number;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const GenerationCacheSchema = new Schema<IGenerationCache>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    destination: String,
+    itinerary: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    provenance: GenerationProvenanceSchema,
+    hits: {
+      type: Number,
+      default: 0,
+    },
+    // MongoDB removes entries once they expire
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const GenerationCache: Model<IGenerationCache> =
+  mongoose.models.GenerationCache || mongoose.model<IGenerationCache>('GenerationCache', GenerationCacheSchema);
+
+export default GenerationCache;
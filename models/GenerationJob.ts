@@ -0,0 +1,79 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { TripRequest } from '@/lib/providers';
+import type { ValidationIssue } from '@/lib/itinerarySchema';
+import { GenerationProvenanceSchema, IDay, IGenerationProvenance } from './Itinerary';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IGenerationJob {
+  _id?: string;
+  userId: mongoose.Types.ObjectId;
+  status: GenerationJobStatus;
+  request: TripRequest;
+  promptVersion?: string;
+  // Days received so far while the job is running, by index
+  partialDays: (IDay | null)[];
+  itineraryId?: mongoose.Types.ObjectId;
+  error?: {
+    message: string;
+    issues?: ValidationIssue[];
+  };
+  // Recorded for failed as well as succeeded jobs so prompt versions can be compared
+  provenance?: IGenerationProvenance;
+  startedAt?: Date;
+  finishedAt?: Date;
+  // Set on success so finished jobs are cleaned up (the itinerary keeps the provenance);
+  // failed jobs are kept for inspection and prompt statistics
+  expiresAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const GenerationJobSchema = new Schema<IGenerationJob>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'succeeded', 'failed'],
+      default: 'queued',
+      index: true,
+    },
+    request: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    promptVersion: String,
+    partialDays: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Itinerary',
+    },
+    error: {
+      message: String,
+      issues: Schema.Types.Mixed,
+    },
+    provenance: GenerationProvenanceSchema,
+    startedAt: Date,
+    finishedAt: Date,
+    expiresAt: {
+      type: Date,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const GenerationJob: Model<IGenerationJob> =
+  mongoose.models.GenerationJob || mongoose.model<IGenerationJob>('GenerationJob', GenerationJobSchema);
+
+export default GenerationJob;
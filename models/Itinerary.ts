@@ -1,21 +1,95 @@
 import mongoose, { Schema, Model } from 'mongoose';
+import type { GenerationParameters } from '@/lib/providers';
+import type { Money } from '@/lib/currencyUtils';
+import type { GeocodePrecision } from '@/lib/geocoding';
+import { applyMoneyFields } from '@/lib/itineraryMoney';
+import { applyScheduleFields } from '@/lib/activitySchedule';
+
+// Where an activity takes place; source is the geocoder's name, or 'manual' for a pin set by a user
+export interface IActivityGeo {
+  lat: number;
+  lng: number;
+  source: string;
+  // The matched place, e.g. "Eiffel Tower"
+  name?: string;
+  precision?: GeocodePrecision;
+}
 
 export interface IActivity {
   time: string;
   title: string;
   description: string;
   location: string;
+  geo?: IActivityGeo;
   duration: string;
+  // Parsed from time and duration; minutes after midnight and length in minutes
+  startMinutes?: number;
+  durationMinutes?: number;
+  // Display form, e.g. "₹1,200"; costMoney is the parsed value
   cost: string;
+  costMoney?: Money;
   category: string;
 }
 
 export interface IDay {
   day: number;
+  // "yyyy-MM-dd" when the itinerary has a start date, otherwise a "Day N" label
   date: string;
+  weekday?: string;
   activities: IActivity[];
   totalCost: string;
+  totalCostMoney?: Money;
   notes: string;
+  // Index into IItinerary.legs for multi-city trips
+  leg?: number;
+  isTransfer?: boolean;
+}
+
+export interface ILeg {
+  city: string;
+  nights: number;
+}
+
+export interface ITravelerParty {
+  adults: number;
+  childAges: number[];
+  seniors: number;
+}
+
+export interface ITripConstraints {
+  dietary: string[];
+  accessibility: string[];
+  religious: string[];
+  notes?: string;
+}
+
+// Which prompt and model produced an itinerary, and how the call went
+export interface IGenerationProvenance {
+  provider: string;
+  model?: string;
+  promptVersion?: string;
+  parameters?: GenerationParameters;
+  latencyMs: number;
+  // Number of times invalid output was sent back to the model
+  repairAttempts: number;
+  generatedAt: Date;
+  // True when the itinerary was served from the generation cache
+  cached?: boolean;
+}
+
+export type TravelPace = 'relaxed' | 'moderate' | 'packed';
+
+export interface IRefinementMessage {
+  _id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Proposed itinerary content returned by the model, applied only when accepted
+  proposal?: Pick<IItinerary, 'totalDays' | 'interests' | 'days' | 'summary'>;
+  // contentFingerprint of the itinerary the proposal was made from
+  baseFingerprint?: string;
+  // Outdated: the itinerary changed after the proposal was made, so it can no longer be accepted
+  status?: 'pending' | 'accepted' | 'rejected' | 'outdated';
+  createdAt?: Date;
 }
 
 export interface IItinerary {
@@ -23,39 +97,167 @@ export interface IItinerary {
   userId: mongoose.Types.ObjectId;
   title: string;
   destination: string;
+  legs?: ILeg[];
+  // Trip dates as "yyyy-MM-dd"; endDate is derived from startDate and totalDays
+  startDate?: string;
+  endDate?: string;
+  party?: ITravelerParty;
+  pace?: TravelPace;
+  // Mobility constraints, e.g. "Wheelchair user"
+  mobility?: string[];
+  constraints?: ITripConstraints;
+  generation?: IGenerationProvenance;
   totalDays: number;
   budget: string;
+  // Null when the budget has no amount, so it is not taken for an unmigrated itinerary
+  budgetMoney?: Money | null;
   interests: string[];
   days: IDay[];
   summary: {
     totalEstimatedCost: string;
+    totalEstimatedCostMoney?: Money;
     highlights: string[];
     tips: string[];
   };
   collaborators: mongoose.Types.ObjectId[];
   isPublic: boolean;
+  refinements?: IRefinementMessage[];
+  // Templates are reusable plans without dates or collaborators, listed in the owner's template library
+  isTemplate?: boolean;
+  // The template an itinerary was cloned from
+  templateId?: mongoose.Types.ObjectId;
+  // Set while the itinerary is in the owner's trash
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export const MoneySchema = new Schema<Money>({
+  amount: {
+    type: Number,
+    required: true,
+  },
+  max: Number,
+  currency: {
+    type: String,
+    required: true,
+  },
+}, { _id: false });
+
+const ActivityGeoSchema = new Schema<IActivityGeo>({
+  lat: {
+    type: Number,
+    required: true,
+    min: -90,
+    max: 90,
+  },
+  lng: {
+    type: Number,
+    required: true,
+    min: -180,
+    max: 180,
+  },
+  source: {
+    type: String,
+    required: true,
+  },
+  name: String,
+  precision: {
+    type: String,
+    enum: ['landmark', 'city'],
+  },
+}, { _id: false });
+
 const ActivitySchema = new Schema<IActivity>({
   time: String,
   title: String,
   description: String,
   location: String,
+  geo: ActivityGeoSchema,
   duration: String,
+  startMinutes: Number,
+  durationMinutes: Number,
   cost: String,
+  costMoney: MoneySchema,
   category: String,
 }, { _id: false });
 
 const DaySchema = new Schema<IDay>({
   day: Number,
   date: String,
+  weekday: String,
   activities: [ActivitySchema],
   totalCost: String,
+  totalCostMoney: MoneySchema,
   notes: String,
+  leg: Number,
+  isTransfer: Boolean,
 }, { _id: false });
 
+const LegSchema = new Schema<ILeg>({
+  city: {
+    type: String,
+    required: true,
+  },
+  nights: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+}, { _id: false });
+
+const TravelerPartySchema = new Schema<ITravelerParty>({
+  adults: {
+    type: Number,
+    min: 0,
+    default: 1,
+  },
+  childAges: [Number],
+  seniors: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+}, { _id: false });
+
+export const TripConstraintsSchema = new Schema<ITripConstraints>({
+  dietary: [String],
+  accessibility: [String],
+  religious: [String],
+  notes: String,
+}, { _id: false });
+
+export const GenerationProvenanceSchema = new Schema<IGenerationProvenance>({
+  provider: String,
+  model: String,
+  promptVersion: String,
+  parameters: Schema.Types.Mixed,
+  latencyMs: Number,
+  repairAttempts: Number,
+  generatedAt: Date,
+  cached: Boolean,
+}, { _id: false });
+
+const RefinementMessageSchema = new Schema<IRefinementMessage>({
+  role: {
+    type: String,
+    enum: ['user', 'assistant'],
+    required: true,
+  },
+  content: String,
+  proposal: Schema.Types.Mixed,
+  baseFingerprint: String,
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'rejected', 'outdated'],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
 const ItinerarySchema = new Schema<IItinerary>(
   {
     userId: {
@@ -71,6 +273,17 @@ const ItinerarySchema = new Schema<IItinerary>(
       type: String,
       required: true,
     },
+    legs: [LegSchema],
+    startDate: String,
+    endDate: String,
+    party: TravelerPartySchema,
+    pace: {
+      type: String,
+      enum: ['relaxed', 'moderate', 'packed'],
+    },
+    mobility: [String],
+    constraints: TripConstraintsSchema,
+    generation: GenerationProvenanceSchema,
     totalDays: {
       type: Number,
       required: true,
@@ -79,10 +292,12 @@ const ItinerarySchema = new Schema<IItinerary>(
       type: String,
       required: true,
     },
+    budgetMoney: MoneySchema,
     interests: [String],
     days: [DaySchema],
     summary: {
       totalEstimatedCost: String,
+      totalEstimatedCostMoney: MoneySchema,
       highlights: [String],
       tips: [String],
     },
@@ -94,12 +309,54 @@ const ItinerarySchema = new Schema<IItinerary>(
       type: Boolean,
       default: false,
     },
+    refinements: [RefinementMessageSchema],
+    isTemplate: {
+      type: Boolean,
+      default: false,
+    },
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Itinerary',
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Keeps the structured costs and times in step with their strings on every write
+ItinerarySchema.pre('save', function () {
+  applyMoneyFields(this);
+  applyScheduleFields(this);
+});
+
+ItinerarySchema.pre('findOneAndUpdate', function () {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (update) {
+    applyMoneyFields(update.$set || update);
+    applyScheduleFields(update.$set || update);
+  }
+});
+
+ItinerarySchema.index({ userId: 1, deletedAt: 1 });
+ItinerarySchema.index({ userId: 1, isTemplate: 1 });
+
+// Trashed itineraries are left out of every query that does not filter on deletedAt itself
+// or set the `withTrashed` option (e.g. maintenance jobs that cover every itinerary)
+ItinerarySchema.pre(['find', 'findOne', 'countDocuments', 'findOneAndUpdate', 'findOneAndDelete', 'updateOne', 'updateMany'], function () {
+  if (!('deletedAt' in this.getFilter()) && !this.getOptions().withTrashed) {
+    this.where({ deletedAt: null });
+  }
+});
+
 const Itinerary: Model<IItinerary> = mongoose.models.Itinerary || mongoose.model<IItinerary>('Itinerary', ItinerarySchema);
 
 export default Itinerary;
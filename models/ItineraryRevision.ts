@@ -0,0 +1,73 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { IItinerary } from './Itinerary';
+
+export type RevisionAction = 'baseline' | 'create' | 'generate' | 'edit' | 'regenerate' | 'refine' | 'fit-budget' | 'pin' | 'restore';
+
+// The parts of an itinerary a revision restores; sharing and chat history are not versioned
+export type ItinerarySnapshot = Pick<IItinerary,
+  'title' | 'destination' | 'legs' | 'startDate' | 'endDate' | 'party' | 'pace' | 'mobility'
+  | 'constraints' | 'totalDays' | 'budget' | 'interests' | 'days' | 'summary'>;
+
+export interface IItineraryRevision {
+  _id?: string;
+  itineraryId: mongoose.Types.ObjectId;
+  // 1 for the oldest revision of an itinerary
+  version: number;
+  // Missing for the baseline of an itinerary created before history was recorded
+  authorId?: mongoose.Types.ObjectId;
+  action: RevisionAction;
+  summary: string;
+  snapshot: ItinerarySnapshot;
+  createdAt?: Date;
+}
+
+const ItineraryRevisionSchema = new Schema<IItineraryRevision>(
+  {
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Itinerary',
+      required: true,
+      immutable: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      immutable: true,
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      immutable: true,
+    },
+    action: {
+      type: String,
+      enum: ['baseline', 'create', 'generate', 'edit', 'regenerate', 'refine', 'fit-budget', 'pin', 'restore'],
+      required: true,
+      immutable: true,
+    },
+    summary: {
+      type: String,
+      immutable: true,
+    },
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: true,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+ItineraryRevisionSchema.index({ itineraryId: 1, version: -1 }, { unique: true });
+
+// Revisions are append-only
+ItineraryRevisionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function () {
+  throw new Error('Itinerary revisions cannot be modified');
+});
+
+const ItineraryRevision: Model<IItineraryRevision> =
+  mongoose.models.ItineraryRevision || mongoose.model<IItineraryRevision>('ItineraryRevision', ItineraryRevisionSchema);
+
+export default ItineraryRevision;
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+export type NotificationType = 'itinerary-trashed';
+
+export interface INotification {
+  _id?: string;
+  // The user the notification is for
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  message: string;
+  itineraryId?: mongoose.Types.ObjectId;
+  // The user whose action caused the notification
+  actorId?: mongoose.Types.ObjectId;
+  read: boolean;
+  createdAt?: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['itinerary-trashed'],
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Itinerary',
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+NotificationSchema.index({ userId: 1, read: 1, createdAt: -1 });
+
+const Notification: Model<INotification> =
+  mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
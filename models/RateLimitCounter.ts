@@ -0,0 +1,32 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IRateLimitCounter {
+  _id?: string;
+  // What is being limited and the window it counts, e.g. "generate:global:60000:29123456"
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  // MongoDB removes counters once their window has ended
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expires: 0 },
+  },
+});
+
+const RateLimitCounter: Model<IRateLimitCounter> =
+  mongoose.models.RateLimitCounter || mongoose.model<IRateLimitCounter>('RateLimitCounter', RateLimitCounterSchema);
+
+export default RateLimitCounter;
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+export type UsageOutcome = 'success' | 'invalid' | 'error' | 'cancelled';
+
+export interface IUsageRecord {
+  _id?: string;
+  // Missing for calls made outside a signed-in request
+  userId?: mongoose.Types.ObjectId;
+  // Task kind the call was for: itinerary, day, activity or refine
+  feature: string;
+  // True for calls that ask the model to fix invalid output
+  repair: boolean;
+  provider: string;
+  model?: string;
+  promptTokens: number;
+  responseTokens: number;
+  // True when token counts were estimated from text length rather than reported by the provider
+  estimated: boolean;
+  costUsd: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  error?: string;
+  createdAt?: Date;
+}
+
+const UsageRecordSchema = new Schema<IUsageRecord>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    feature: {
+      type: String,
+      required: true,
+    },
+    repair: {
+      type: Boolean,
+      default: false,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    model: String,
+    promptTokens: {
+      type: Number,
+      default: 0,
+    },
+    responseTokens: {
+      type: Number,
+      default: 0,
+    },
+    estimated: {
+      type: Boolean,
+      default: false,
+    },
+    costUsd: {
+      type: Number,
+      default: 0,
+    },
+    latencyMs: Number,
+    outcome: {
+      type: String,
+      enum: ['success', 'invalid', 'error', 'cancelled'],
+      required: true,
+    },
+    error: String,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+UsageRecordSchema.index({ userId: 1, createdAt: -1 });
+UsageRecordSchema.index({ createdAt: -1 });
+
+const UsageRecord: Model<IUsageRecord> =
+  mongoose.models.UsageRecord || mongoose.model<IUsageRecord>('UsageRecord', UsageRecordSchema);
+
+export default UsageRecord;
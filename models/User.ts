@@ -1,5 +1,6 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ITripConstraints, TripConstraintsSchema } from './Itinerary';
 
 export interface IUser {
   _id?: string;
@@ -7,6 +8,11 @@ export interface IUser {
   email: string;
   password: string;
   image?: string;
+  // Default requirements applied to new trips
+  travelConstraints?: ITripConstraints;
+  // Currency code and locale costs are displayed in; stored costs stay in INR
+  homeCurrency?: string;
+  locale?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -37,6 +43,15 @@ const UserSchema = new Schema<IUser, UserModel, IUserMethods>(
     image: {
       type: String,
     },
+    travelConstraints: TripConstraintsSchema,
+    homeCurrency: {
+      type: String,
+      default: 'INR',
+    },
+    locale: {
+      type: String,
+      default: 'en-IN',
+    },
   },
   {
     timestamps: true,
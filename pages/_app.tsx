@@ -2,6 +2,7 @@ import '@/styles/globals.css';
 import type { AppProps } from 'next/app';
 import { SessionProvider } from 'next-auth/react';
 import { Toaster } from 'react-hot-toast';
+import { CurrencyProvider } from '@/components/CurrencyProvider';
 
 export default function App({
   Component,
@@ -9,7 +10,9 @@ export default function App({
 }: AppProps) {
   return (
     <SessionProvider session={session}>
-      <Component {...pageProps} />
+      <CurrencyProvider>
+        <Component {...pageProps} />
+      </CurrencyProvider>
       <Toaster position="top-right" />
     </SessionProvider>
   );
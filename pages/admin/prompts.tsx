@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import Layout from '@/components/Layout';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import { FiBarChart2 } from 'react-icons/fi';
+
+interface PromptVersionStats {
+  version: string;
+  description: string;
+  total: number;
+  failed: number;
+  repaired: number;
+  repairAttempts: number;
+  failureRate: number | null;
+  repairRate: number | null;
+  avgLatencyMs: number | null;
+  models: string[];
+  lastRunAt: string | null;
+}
+
+const PERIODS = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'All time', days: 0 },
+];
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+export default function PromptStats() {
+  const { status } = useSession();
+  const [stats, setStats] = useState<PromptVersionStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchStats();
+    }
+  }, [status, days]);
+
+  const fetchStats = async () => {
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/admin/prompt-stats${days ? `?days=${days}` : ''}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setStats(data.data || []);
+      } else if (res.status === 403) {
+        setForbidden(true);
+      } else {
+        toast.error(data.message || 'Failed to fetch prompt statistics');
+      }
+    } catch (error: any) {
+      toast.error('Failed to fetch prompt statistics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <Layout>
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 py-8">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="mb-8 flex items-end justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+                  <FiBarChart2 className="w-7 h-7 mr-3 text-blue-600" />
+                  Prompt Versions
+                </h1>
+                <p className="text-gray-600">Failure and repair rates of itinerary generation jobs per prompt version</p>
+              </div>
+              {!forbidden && (
+                <select
+                  value={days}
+                  onChange={(e) => setDays(parseInt(e.target.value))}
+                  className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                >
+                  {PERIODS.map((period) => (
+                    <option key={period.days} value={period.days}>{period.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {forbidden ? (
+              <div className="bg-white rounded-2xl shadow-xl p-12 text-center">
+                <p className="text-gray-600 text-lg">You need admin access to view this page.</p>
+              </div>
+            ) : loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="bg-white rounded-2xl shadow-xl overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600 text-left">
+                    <tr>
+                      <th className="px-6 py-3 font-medium">Version</th>
+                      <th className="px-6 py-3 font-medium text-right">Jobs</th>
+                      <th className="px-6 py-3 font-medium text-right">Failure rate</th>
+                      <th className="px-6 py-3 font-medium text-right">Repair rate</th>
+                      <th className="px-6 py-3 font-medium text-right">Repair calls</th>
+                      <th className="px-6 py-3 font-medium text-right">Avg latency</th>
+                      <th className="px-6 py-3 font-medium">Models</th>
+                      <th className="px-6 py-3 font-medium">Last run</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {stats.map((row) => (
+                      <tr key={row.version}>
+                        <td className="px-6 py-4">
+                          <p className="font-semibold text-gray-900">{row.version}</p>
+                          <p className="text-xs text-gray-500">{row.description}</p>
+                        </td>
+                        <td className="px-6 py-4 text-right text-gray-900">{row.total}</td>
+                        <td className="px-6 py-4 text-right text-gray-900">{formatRate(row.failureRate)}</td>
+                        <td className="px-6 py-4 text-right text-gray-900">{formatRate(row.repairRate)}</td>
+                        <td className="px-6 py-4 text-right text-gray-900">{row.repairAttempts}</td>
+                        <td className="px-6 py-4 text-right text-gray-900">
+                          {row.avgLatencyMs === null ? '—' : `${(row.avgLatencyMs / 1000).toFixed(1)}s`}
+                        </td>
+                        <td className="px-6 py-4 text-gray-600">{row.models.join(', ') || '—'}</td>
+                        <td className="px-6 py-4 text-gray-600">
+                          {row.lastRunAt ? new Date(row.lastRunAt).toLocaleString() : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  );
+}
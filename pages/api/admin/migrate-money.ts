@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { isAdmin } from '@/lib/admin';
+import { applyMoneyFields } from '@/lib/itineraryMoney';
+
+// Itineraries saved before costs were stored as Money values (budgetMoney is null, not
+// missing, when a budget has no amount)
+const PENDING = { budgetMoney: { $exists: false } };
+
+// Trashed itineraries are migrated too, so they have Money fields when restored
+const WITH_TRASHED = { withTrashed: true };
+
+// Unparsed cost strings returned in the report
+const UNPARSED_SAMPLE = 50;
+
+/**
+ * GET: number of itineraries (trashed ones included) still missing structured costs
+ * POST: parses the cost strings of those itineraries (or all with ?all=1) into Money fields
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (!isAdmin(session.user.email)) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+
+  try {
+    await dbConnect();
+
+    if (req.method === 'GET') {
+      const pending = await Itinerary.countDocuments(PENDING).setOptions(WITH_TRASHED);
+      return res.status(200).json({ success: true, data: { pending } });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const filter = req.query.all === '1' ? {} : PENDING;
+    let migrated = 0;
+    const unparsed: { itineraryId: string; cost: string }[] = [];
+
+    for await (const itinerary of Itinerary.find(filter).setOptions(WITH_TRASHED).cursor()) {
+      const result = applyMoneyFields(itinerary);
+      result.unparsed.forEach((cost) => unparsed.push({ itineraryId: itinerary._id.toString(), cost }));
+
+      // Not a user edit, so updatedAt is left alone
+      await itinerary.save({ timestamps: false });
+      migrated++;
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        migrated,
+        unparsedCount: unparsed.length,
+        unparsed: unparsed.slice(0, UNPARSED_SAMPLE),
+      },
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,124 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import GenerationJob from '@/models/GenerationJob';
+import Itinerary from '@/models/Itinerary';
+import { isAdmin } from '@/lib/admin';
+import { JOB_CANCELLED_MESSAGE } from '@/lib/generationJobs';
+import { DEFAULT_PROMPT_VERSION, PROMPT_TEMPLATES } from '@/lib/promptTemplates';
+
+/**
+ * GET: failure and repair rates per prompt version over finished generations
+ * (cancellations, cache hits and template copies excluded), optionally limited to the last ?days=N days
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (!isAdmin(session.user.email)) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    await dbConnect();
+
+    // Succeeded jobs expire after a day, so successes are read from the itineraries' provenance
+    // (trashed ones included) and failures from the jobs, which are kept
+    const itineraryMatch: Record<string, any> = {
+      'generation.provider': { $exists: true },
+      'generation.cached': { $ne: true },
+      isTemplate: { $ne: true },
+      templateId: { $exists: false },
+    };
+    const jobMatch: Record<string, any> = {
+      status: 'failed',
+      'error.message': { $ne: JOB_CANCELLED_MESSAGE },
+    };
+    const days = parseInt(String(req.query.days || ''), 10);
+    if (days > 0) {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      itineraryMatch['generation.generatedAt'] = { $gte: since };
+      jobMatch.createdAt = { $gte: since };
+    }
+
+    const [succeeded, failed] = await Promise.all([
+      Itinerary.aggregate([
+        { $match: itineraryMatch },
+        {
+          $group: {
+            _id: { $ifNull: ['$generation.promptVersion', DEFAULT_PROMPT_VERSION] },
+            total: { $sum: 1 },
+            repaired: { $sum: { $cond: [{ $gt: ['$generation.repairAttempts', 0] }, 1, 0] } },
+            repairAttempts: { $sum: { $ifNull: ['$generation.repairAttempts', 0] } },
+            latencyMs: { $sum: { $ifNull: ['$generation.latencyMs', 0] } },
+            timed: { $sum: { $cond: [{ $isNumber: '$generation.latencyMs' }, 1, 0] } },
+            models: { $addToSet: '$generation.model' },
+            lastRunAt: { $max: '$generation.generatedAt' },
+          },
+        },
+      ]),
+      GenerationJob.aggregate([
+        { $match: jobMatch },
+        {
+          $group: {
+            _id: { $ifNull: ['$promptVersion', DEFAULT_PROMPT_VERSION] },
+            total: { $sum: 1 },
+            repaired: { $sum: { $cond: [{ $gt: ['$provenance.repairAttempts', 0] }, 1, 0] } },
+            repairAttempts: { $sum: { $ifNull: ['$provenance.repairAttempts', 0] } },
+            latencyMs: { $sum: { $ifNull: ['$provenance.latencyMs', 0] } },
+            timed: { $sum: { $cond: [{ $isNumber: '$provenance.latencyMs' }, 1, 0] } },
+            models: { $addToSet: '$provenance.model' },
+            lastRunAt: { $max: '$finishedAt' },
+          },
+        },
+      ]),
+    ]);
+
+    // Include registered versions that have not run yet
+    const versions = Array.from(new Set([
+      ...PROMPT_TEMPLATES.map((template) => template.version),
+      ...succeeded.map((group) => group._id),
+      ...failed.map((group) => group._id),
+    ]));
+
+    const stats = versions.map((version) => {
+      const success = succeeded.find((candidate) => candidate._id === version);
+      const failure = failed.find((candidate) => candidate._id === version);
+      const sum = (field: string) => (success?.[field] || 0) + (failure?.[field] || 0);
+      const total = sum('total');
+      const timed = sum('timed');
+      const lastRuns = [success?.lastRunAt, failure?.lastRunAt].filter(Boolean).map((date) => new Date(date).getTime());
+      return {
+        version,
+        description: PROMPT_TEMPLATES.find((template) => template.version === version)?.description || 'Unregistered version',
+        total,
+        failed: failure?.total || 0,
+        repaired: sum('repaired'),
+        repairAttempts: sum('repairAttempts'),
+        failureRate: total > 0 ? (failure?.total || 0) / total : null,
+        repairRate: total > 0 ? sum('repaired') / total : null,
+        avgLatencyMs: timed > 0 ? Math.round(sum('latencyMs') / timed) : null,
+        models: Array.from(new Set([...(success?.models || []), ...(failure?.models || [])])).filter(Boolean),
+        lastRunAt: lastRuns.length > 0 ? new Date(Math.max(...lastRuns)) : null,
+      };
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: stats,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import { isAdmin } from '@/lib/admin';
+import { purgeExpiredTrash } from '@/lib/itineraryTrash';
+
+/**
+ * POST: deletes every itinerary that has been in the trash longer than TRASH_RETENTION_DAYS,
+ * with its revisions, bookings and expenses
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (!isAdmin(session.user.email)) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    await dbConnect();
+    const purged = await purgeExpiredTrash();
+
+    return res.status(200).json({
+      success: true,
+      data: { purged },
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
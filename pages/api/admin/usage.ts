@@ -0,0 +1,84 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import UsageRecord from '@/models/UsageRecord';
+import User from '@/models/User';
+import { isAdmin } from '@/lib/admin';
+import { toUsageTotals, USAGE_TOTALS_GROUP } from '@/lib/usageLedger';
+
+const TOP_USERS = 20;
+
+/**
+ * GET: model usage and estimated cost across all users, broken down by feature,
+ * model and user, optionally limited to the last ?days=N days
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (!isAdmin(session.user.email)) {
+    return res.status(403).json({ message: 'Admin access required' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    await dbConnect();
+
+    const match: Record<string, any> = {};
+    const days = parseInt(String(req.query.days || ''), 10);
+    if (days > 0) {
+      match.createdAt = { $gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) };
+    }
+
+    const [result] = await UsageRecord.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          totals: [{ $group: { _id: null, ...USAGE_TOTALS_GROUP, repairCalls: { $sum: { $cond: ['$repair', 1, 0] } } } }],
+          byFeature: [{ $group: { _id: '$feature', ...USAGE_TOTALS_GROUP } }, { $sort: { costUsd: -1 } }],
+          byModel: [{ $group: { _id: { $ifNull: ['$model', '$provider'] }, ...USAGE_TOTALS_GROUP } }, { $sort: { costUsd: -1 } }],
+          byUser: [
+            { $match: { userId: { $exists: true } } },
+            { $group: { _id: '$userId', ...USAGE_TOTALS_GROUP } },
+            { $sort: { costUsd: -1, calls: -1 } },
+            { $limit: TOP_USERS },
+          ],
+        },
+      },
+    ]);
+
+    const users = await User.find({ _id: { $in: (result?.byUser || []).map((group: any) => group._id) } })
+      .select('name email')
+      .lean();
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        totals: { ...toUsageTotals(result?.totals[0]), repairCalls: result?.totals[0]?.repairCalls || 0 },
+        byFeature: (result?.byFeature || []).map((group: any) => ({ feature: group._id, ...toUsageTotals(group) })),
+        byModel: (result?.byModel || []).map((group: any) => ({ model: group._id, ...toUsageTotals(group) })),
+        topUsers: (result?.byUser || []).map((group: any) => {
+          const user = users.find((candidate) => candidate._id.toString() === group._id.toString());
+          return {
+            userId: group._id,
+            name: user?.name,
+            email: user?.email,
+            ...toUsageTotals(group),
+          };
+        }),
+      },
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
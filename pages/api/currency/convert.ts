@@ -1,12 +1,20 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExchangeRate, UnsupportedCurrencyError } from '@/lib/exchangeRates';
+import { normalizeStartDate } from '@/lib/tripDates';
 
 interface ExchangeRateResponse {
   success: boolean;
   convertedAmount?: number;
   rate?: number;
+  // Date of the rate used, as "yyyy-MM-dd"
+  date?: string;
   message?: string;
 }
 
+/**
+ * GET: converts an amount (?from&to&amount) at the latest rate, or at the rate
+ * of a past date with ?date=yyyy-MM-dd
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ExchangeRateResponse>
@@ -27,6 +35,7 @@ export default async function handler(
   const fromCurrency = (from as string).toUpperCase();
   const toCurrency = (to as string).toUpperCase();
   const amountValue = parseFloat(amount as string);
+  const date = normalizeStartDate(req.query.date);
 
   if (isNaN(amountValue) || amountValue <= 0) {
     return res.status(400).json({
@@ -35,42 +44,30 @@ export default async function handler(
     });
   }
 
-  if (fromCurrency === toCurrency) {
-    return res.status(200).json({
-      success: true,
-      convertedAmount: amountValue,
-      rate: 1,
+  if (req.query.date && !date) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid date',
     });
   }
 
   try {
-    // Using exchangerate-api.io free tier (no API key required for basic usage)
-    const response = await fetch(
-      `https://api.exchangerate-api.com/v4/latest/${fromCurrency}`
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch exchange rates');
-    }
-
-    const data = await response.json();
-
-    if (!data.rates || !data.rates[toCurrency]) {
-      return res.status(400).json({
-        success: false,
-        message: `Currency ${toCurrency} not found in exchange rates`,
-      });
-    }
-
-    const rate = data.rates[toCurrency];
-    const convertedAmount = amountValue * rate;
+    const { rate, date: rateDate } = await getExchangeRate(fromCurrency, toCurrency, date);
 
     return res.status(200).json({
       success: true,
-      convertedAmount,
+      convertedAmount: amountValue * rate,
       rate,
+      date: rateDate,
     });
   } catch (error: any) {
+    if (error instanceof UnsupportedCurrencyError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     console.error('Currency conversion error:', error);
     return res.status(500).json({
       success: false,
@@ -78,4 +75,3 @@ export default async function handler(
     });
   }
 }
-
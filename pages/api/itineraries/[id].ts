@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../auth/[...nextauth]';
 import dbConnect from '@/lib/mongodb';
 import Itinerary from '@/models/Itinerary';
+import { recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+import { trashItinerary } from '@/lib/itineraryTrash';
+import { applyTripDates, getEndDate, normalizeStartDate } from '@/lib/tripDates';
 
 export default async function handler(
   req: NextApiRequest,
@@ -58,14 +61,42 @@ export default async function handler(
         return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
       }
 
+      const previous = toSnapshot(itinerary);
+      const update = { ...req.body };
+      // Trashing goes through DELETE so collaborators are notified
+      delete update.deletedAt;
+      delete update.deletedBy;
+      // An itinerary becomes a template only by being saved as one, which strips its dates
+      delete update.isTemplate;
+      delete update.templateId;
+
+      // Changing the start date or the days re-dates every day and the end date
+      if ('startDate' in update || 'days' in update) {
+        const startDate = 'startDate' in update
+          ? normalizeStartDate(update.startDate)
+          : itinerary.startDate || null;
+
+        if (update.startDate && !startDate) {
+          return res.status(400).json({ message: 'Please provide a valid start date' });
+        }
+
+        update.days = applyTripDates(update.days || itinerary.toObject().days, startDate);
+        update.startDate = startDate;
+        update.endDate = startDate ? getEndDate(startDate, update.days.length) : null;
+      }
+
       const updatedItinerary = await Itinerary.findByIdAndUpdate(
         id,
-        req.body,
+        update,
         { new: true, runValidators: true }
       )
         .populate('userId', 'name email')
         .populate('collaborators', 'name email');
 
+      if (updatedItinerary) {
+        await recordRevision({ itinerary: updatedItinerary, authorId: session.user.id, action: 'edit', description: 'Edited', previous });
+      }
+
       return res.status(200).json({
         success: true,
         data: updatedItinerary,
@@ -86,11 +117,11 @@ export default async function handler(
         return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
       }
 
-      await Itinerary.findByIdAndDelete(id);
+      await trashItinerary(itinerary, session.user.id);
 
       return res.status(200).json({
         success: true,
-        message: 'Itinerary deleted successfully',
+        message: 'Itinerary moved to trash',
       });
     } catch (error: any) {
       return res.status(500).json({ message: error.message || 'Server error' });
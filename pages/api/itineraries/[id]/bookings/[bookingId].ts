@@ -0,0 +1,96 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import Booking from '@/models/Booking';
+import { buildBooking } from '@/lib/bookings';
+
+// Attachments are sent as base64 in the JSON body
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '3mb',
+    },
+  },
+};
+
+/**
+ * PUT: replaces a booking's details; the attachment is kept unless one is sent, or null to remove it
+ * DELETE: removes a booking
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id, bookingId } = req.query;
+
+  try {
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const booking = await Booking.findOne({ _id: bookingId, itineraryId: itinerary._id });
+
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await booking.deleteOne();
+
+      return res.status(200).json({
+        success: true,
+        message: 'Booking deleted',
+      });
+    }
+
+    const { booking: update, error } = buildBooking(req.body);
+
+    if (!update) {
+      return res.status(400).json({ message: error });
+    }
+
+    const { attachment, ...details } = update;
+    booking.set(details);
+    // Optional fields left out of the update are cleared
+    (['confirmationNumber', 'end', 'location', 'cost'] as const).forEach((field) => {
+      if (details[field] === undefined) {
+        booking.set(field, undefined);
+      }
+    });
+    if (attachment !== undefined) {
+      booking.set('attachment', attachment || undefined);
+    }
+    await booking.save();
+
+    const updatedBooking = await Booking.findById(booking._id);
+
+    return res.status(200).json({
+      success: true,
+      data: updatedBooking,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import Booking from '@/models/Booking';
+import { attachmentDisposition } from '@/lib/bookings';
+
+/**
+ * GET: downloads a booking's attachment
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id, bookingId } = req.query;
+
+  try {
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const booking = await Booking.findOne({ _id: bookingId, itineraryId: itinerary._id })
+      .select('+attachment.data');
+
+    if (!booking?.attachment?.data) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const { filename, contentType, data } = booking.attachment;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', attachmentDisposition(filename));
+    // Served inline, so browsers must not guess a more dangerous type than the stored one
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return res.status(200).send(data);
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import Booking from '@/models/Booking';
+import { buildBooking } from '@/lib/bookings';
+
+// Attachments are sent as base64 in the JSON body
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '3mb',
+    },
+  },
+};
+
+/**
+ * GET: the itinerary's bookings in start order, without attachment data
+ * POST: adds a booking ({ type, provider, confirmationNumber?, start, end?, location?, cost?, currency?, attachment? })
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  try {
+    // Bookings hold confirmation numbers, so they are never public
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    if (req.method === 'GET') {
+      const bookings = await Booking.find({ itineraryId: itinerary._id }).sort({ start: 1 });
+
+      return res.status(200).json({
+        success: true,
+        data: bookings,
+      });
+    }
+
+    const { booking, error } = buildBooking(req.body);
+
+    if (!booking) {
+      return res.status(400).json({ message: error });
+    }
+
+    const created = await Booking.create({
+      ...booking,
+      attachment: booking.attachment || undefined,
+      itineraryId: itinerary._id,
+      createdBy: session.user.id,
+    });
+
+    // Read back without the attachment data
+    const saved = await Booking.findById(created._id);
+
+    return res.status(201).json({
+      success: true,
+      data: saved,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import Expense from '@/models/Expense';
+import { buildExpense } from '@/lib/expenses';
+import { convertExpense } from '@/lib/exchangeRates';
+
+/**
+ * PUT: replaces an expense's details and converts it again at the rate of its date
+ * DELETE: removes an expense
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id, expenseId } = req.query;
+
+  try {
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const expense = await Expense.findOne({ _id: expenseId, itineraryId: itinerary._id });
+
+    if (!expense) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await expense.deleteOne();
+
+      return res.status(200).json({
+        success: true,
+        message: 'Expense deleted',
+      });
+    }
+
+    const { expense: update, error } = buildExpense(req.body, itinerary, session.user.id);
+
+    if (!update) {
+      return res.status(400).json({ message: error });
+    }
+
+    const converted = await convertExpense(update.amount, update.currency, update.date);
+    const fields = { ...update, ...converted };
+    expense.set(fields);
+    // Optional fields missing from the update are cleared
+    (['activityIndex', 'description', 'rateDate'] as const).forEach((field) => {
+      if (fields[field] === undefined) {
+        expense.set(field, undefined);
+      }
+    });
+    await expense.save();
+
+    const updatedExpense = await Expense.findById(expense._id).populate('paidBy', 'name email');
+
+    return res.status(200).json({
+      success: true,
+      data: updatedExpense,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
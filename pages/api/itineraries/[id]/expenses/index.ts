@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import Expense from '@/models/Expense';
+import { buildExpense } from '@/lib/expenses';
+import { convertExpense } from '@/lib/exchangeRates';
+
+/**
+ * GET: the itinerary's expenses by day, with the payer's name
+ * POST: logs an expense ({ amount, currency, category, dayIndex, activityIndex?, paidBy?, date?, description? }),
+ * converted to INR at the rate of its date
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  try {
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    if (req.method === 'GET') {
+      const expenses = await Expense.find({ itineraryId: itinerary._id })
+        .populate('paidBy', 'name email')
+        .sort({ dayIndex: 1, createdAt: 1 });
+
+      return res.status(200).json({
+        success: true,
+        data: expenses,
+      });
+    }
+
+    const { expense, error } = buildExpense(req.body, itinerary, session.user.id);
+
+    if (!expense) {
+      return res.status(400).json({ message: error });
+    }
+
+    const created = await Expense.create({
+      ...expense,
+      ...(await convertExpense(expense.amount, expense.currency, expense.date)),
+      itineraryId: itinerary._id,
+      createdBy: session.user.id,
+    });
+
+    const savedExpense = await Expense.findById(created._id).populate('paidBy', 'name email');
+
+    return res.status(201).json({
+      success: true,
+      data: savedExpense,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,98 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { fitToBudget, redateItinerary, toGenerationContext } from '@/lib/itineraryGeneration';
+import { geocodeItinerary, keepManualPins } from '@/lib/geocoding';
+import { recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+import { checkBudget } from '@/lib/budgetCompliance';
+import { consumeGeneration } from '@/lib/generationQuota';
+import { RateLimitError, sendRateLimitError } from '@/lib/rateLimit';
+import { ItineraryValidationError } from '@/lib/itinerarySchema';
+
+/**
+ * POST: swaps expensive activities for cheaper ones until the itinerary fits its budget,
+ * and recomputes the day and trip totals. The response's `fits` says whether it got there.
+ * Counts against the generation quota, since it makes several model calls.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  try {
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const context = toGenerationContext(itinerary);
+    const before = checkBudget(context);
+
+    if (!before.budget) {
+      return res.status(400).json({ message: 'This itinerary has no budget to fit' });
+    }
+
+    if (before.overBudgetBy === 0) {
+      return res.status(400).json({ message: 'This itinerary is already within budget' });
+    }
+
+    try {
+      await consumeGeneration(session.user.id);
+    } catch (error: any) {
+      if (error instanceof RateLimitError) {
+        return sendRateLimitError(res, error);
+      }
+      throw error;
+    }
+
+    const { itinerary: fitted, report } = await fitToBudget(context, { userId: session.user.id });
+
+    const previous = toSnapshot(itinerary);
+    itinerary.days = fitted.days;
+    itinerary.summary = fitted.summary;
+    redateItinerary(itinerary);
+    keepManualPins(previous.days, itinerary.days);
+    await geocodeItinerary(itinerary);
+    itinerary.markModified('days');
+    await itinerary.save();
+    await recordRevision({ itinerary, authorId: session.user.id, action: 'fit-budget', description: 'Fitted to budget', previous });
+
+    const updatedItinerary = await Itinerary.findById(id)
+      .populate('userId', 'name email')
+      .populate('collaborators', 'name email');
+
+    return res.status(200).json({
+      success: true,
+      data: updatedItinerary,
+      fits: report.overBudgetBy === 0,
+    });
+  } catch (error: any) {
+    console.error('Error fitting itinerary to budget:', error);
+    return res.status(error instanceof ItineraryValidationError ? 502 : 500).json({
+      message: error.message || 'Server error',
+      issues: error instanceof ItineraryValidationError ? error.issues : undefined,
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { geocodeItinerary } from '@/lib/geocoding';
+import { recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+
+/**
+ * PUT: pin an activity to a corrected location ({ dayIndex, activityIndex, lat, lng })
+ * DELETE: remove an activity's manual pin and geocode its location again ({ dayIndex, activityIndex })
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  try {
+    const { dayIndex, activityIndex, lat, lng } = req.body || {};
+
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const activity = Number.isInteger(dayIndex) && Number.isInteger(activityIndex)
+      ? itinerary.days[dayIndex]?.activities[activityIndex]
+      : undefined;
+
+    if (!activity) {
+      return res.status(400).json({ message: 'Please provide a valid activity' });
+    }
+
+    const previous = toSnapshot(itinerary);
+
+    if (req.method === 'PUT') {
+      const isValid = typeof lat === 'number' && typeof lng === 'number'
+        && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+      if (!isValid) {
+        return res.status(400).json({ message: 'Please provide a valid latitude and longitude' });
+      }
+
+      activity.geo = { lat, lng, source: 'manual' };
+    } else {
+      activity.geo = undefined;
+      await geocodeItinerary(itinerary);
+    }
+
+    itinerary.markModified('days');
+    await itinerary.save();
+    await recordRevision({
+      itinerary,
+      authorId: session.user.id,
+      action: 'pin',
+      description: req.method === 'PUT' ? `Pinned "${activity.title}" on the map` : `Removed the map pin from "${activity.title}"`,
+      previous,
+    });
+
+    const updatedItinerary = await Itinerary.findById(id)
+      .populate('userId', 'name email')
+      .populate('collaborators', 'name email');
+
+    return res.status(200).json({
+      success: true,
+      data: updatedItinerary,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
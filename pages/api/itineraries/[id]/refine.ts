@@ -0,0 +1,178 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { refineItinerary } from '@/lib/gemini';
+import { redateItinerary, toGenerationContext } from '@/lib/itineraryGeneration';
+import { geocodeItinerary, keepManualPins } from '@/lib/geocoding';
+import { contentFingerprint, recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+import { consumeEdit } from '@/lib/generationQuota';
+import { RateLimitError, sendRateLimitError } from '@/lib/rateLimit';
+import { ItineraryValidationError } from '@/lib/itinerarySchema';
+
+// Number of earlier messages sent to the model as conversation context
+const HISTORY_LIMIT = 10;
+
+/**
+ * POST: send a refinement request, storing the model's proposal as a pending message
+ * (counts against the user's edit limits)
+ * PUT: accept or reject a pending proposal ({ messageId, action: 'accept' | 'reject' }).
+ * A proposal made before the itinerary last changed cannot be accepted (409).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  const itinerary = await Itinerary.findOne({
+    _id: id,
+    $or: [
+      { userId: session.user.id },
+      { collaborators: session.user.id },
+    ],
+  });
+
+  if (!itinerary) {
+    return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+  }
+
+  const respondWithItinerary = async () => {
+    const updatedItinerary = await Itinerary.findById(id)
+      .populate('userId', 'name email')
+      .populate('collaborators', 'name email');
+
+    return res.status(200).json({
+      success: true,
+      data: updatedItinerary,
+    });
+  };
+
+  if (req.method === 'POST') {
+    try {
+      const { message } = req.body;
+
+      if (!message || typeof message !== 'string' || !message.trim()) {
+        return res.status(400).json({ message: 'Please describe the changes you want' });
+      }
+
+      try {
+        await consumeEdit(session.user.id);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          return sendRateLimitError(res, error);
+        }
+        throw error;
+      }
+
+      const refinements = itinerary.refinements || [];
+      const baseFingerprint = contentFingerprint(itinerary);
+      const history = refinements
+        .slice(-HISTORY_LIMIT)
+        .map(({ role, content }) => ({ role, content }));
+
+      const result = await refineItinerary(toGenerationContext(itinerary), message.trim(), history, { userId: session.user.id });
+
+      // Only the latest proposal can be accepted
+      refinements.forEach((refinement) => {
+        if (refinement.status === 'pending') {
+          refinement.status = 'rejected';
+        }
+      });
+
+      refinements.push({ role: 'user', content: message.trim() });
+      refinements.push({
+        role: 'assistant',
+        content: result.reply,
+        proposal: {
+          totalDays: result.itinerary.totalDays,
+          interests: result.itinerary.interests,
+          days: result.itinerary.days,
+          summary: result.itinerary.summary,
+        },
+        baseFingerprint,
+        status: 'pending',
+      });
+
+      itinerary.refinements = refinements;
+      await itinerary.save();
+
+      return respondWithItinerary();
+    } catch (error: any) {
+      console.error('Error refining itinerary:', error);
+      return res.status(error instanceof ItineraryValidationError ? 502 : 500).json({
+        message: error.message || 'Server error',
+        issues: error instanceof ItineraryValidationError ? error.issues : undefined,
+      });
+    }
+  }
+
+  if (req.method === 'PUT') {
+    try {
+      const { messageId, action } = req.body;
+
+      if (action !== 'accept' && action !== 'reject') {
+        return res.status(400).json({ message: 'Action must be accept or reject' });
+      }
+
+      const refinement = (itinerary.refinements || []).find(
+        (entry) => entry._id?.toString() === messageId
+      );
+
+      if (!refinement || refinement.status !== 'pending' || !refinement.proposal) {
+        return res.status(404).json({ message: 'No pending proposal found' });
+      }
+
+      // Accepting would silently undo whatever changed since the proposal was made
+      if (action === 'accept' && refinement.baseFingerprint && refinement.baseFingerprint !== contentFingerprint(itinerary)) {
+        refinement.status = 'outdated';
+        await itinerary.save();
+        return res.status(409).json({
+          message: 'The itinerary has changed since this proposal was made. Please send your request again.',
+        });
+      }
+
+      const previous = toSnapshot(itinerary);
+
+      if (action === 'accept') {
+        itinerary.totalDays = refinement.proposal.totalDays;
+        itinerary.interests = refinement.proposal.interests;
+        itinerary.days = refinement.proposal.days;
+        itinerary.summary = refinement.proposal.summary;
+        redateItinerary(itinerary);
+        keepManualPins(previous.days, itinerary.days);
+        await geocodeItinerary(itinerary);
+      }
+
+      refinement.status = action === 'accept' ? 'accepted' : 'rejected';
+      await itinerary.save();
+
+      if (action === 'accept') {
+        const refinements = itinerary.refinements || [];
+        const request = refinements[refinements.indexOf(refinement) - 1];
+        await recordRevision({
+          itinerary,
+          authorId: session.user.id,
+          action: 'refine',
+          description: request?.role === 'user' ? `Applied refinement "${request.content}"` : 'Applied a refinement',
+          previous,
+        });
+      }
+
+      return respondWithItinerary();
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message || 'Server error' });
+    }
+  }
+
+  return res.status(405).json({ message: 'Method not allowed' });
+}
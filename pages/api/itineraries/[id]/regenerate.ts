@@ -0,0 +1,110 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { regenerateActivity, regenerateDay } from '@/lib/gemini';
+import { redateItinerary, toGenerationContext } from '@/lib/itineraryGeneration';
+import { geocodeItinerary, keepManualPins } from '@/lib/geocoding';
+import { recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+import { consumeEdit } from '@/lib/generationQuota';
+import { RateLimitError, sendRateLimitError } from '@/lib/rateLimit';
+import { ItineraryValidationError } from '@/lib/itinerarySchema';
+
+/**
+ * POST: regenerate one day, or one activity within a day, in place.
+ * Body: { dayIndex, activityIndex?, instructions? } (indexes are zero-based).
+ * Counts against the user's edit limits.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  if (req.method === 'POST') {
+    try {
+      const { dayIndex, activityIndex, instructions } = req.body;
+
+      const itinerary = await Itinerary.findOne({
+        _id: id,
+        $or: [
+          { userId: session.user.id },
+          { collaborators: session.user.id },
+        ],
+      });
+
+      if (!itinerary) {
+        return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+      }
+
+      if (!Number.isInteger(dayIndex) || dayIndex < 0 || dayIndex >= itinerary.days.length) {
+        return res.status(400).json({ message: 'Please provide a valid day' });
+      }
+
+      const day = itinerary.days[dayIndex];
+      const hasActivity = activityIndex !== undefined && activityIndex !== null;
+
+      if (hasActivity && (!Number.isInteger(activityIndex) || activityIndex < 0 || activityIndex >= day.activities.length)) {
+        return res.status(400).json({ message: 'Please provide a valid activity' });
+      }
+
+      try {
+        await consumeEdit(session.user.id);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          return sendRateLimitError(res, error);
+        }
+        throw error;
+      }
+
+      const previous = toSnapshot(itinerary);
+      const context = toGenerationContext(itinerary);
+      const trimmedInstructions = typeof instructions === 'string' && instructions.trim() ? instructions.trim() : undefined;
+
+      if (hasActivity) {
+        day.activities[activityIndex] = await regenerateActivity(context, dayIndex, activityIndex, trimmedInstructions, { userId: session.user.id });
+      } else {
+        itinerary.days[dayIndex] = await regenerateDay(context, dayIndex, trimmedInstructions, { userId: session.user.id });
+      }
+
+      redateItinerary(itinerary);
+      keepManualPins(previous.days, itinerary.days);
+      await geocodeItinerary(itinerary);
+      itinerary.markModified('days');
+      await itinerary.save();
+      await recordRevision({
+        itinerary,
+        authorId: session.user.id,
+        action: 'regenerate',
+        description: hasActivity ? `Regenerated an activity on day ${dayIndex + 1}` : `Regenerated day ${dayIndex + 1}`,
+        previous,
+      });
+
+      const updatedItinerary = await Itinerary.findById(id)
+        .populate('userId', 'name email')
+        .populate('collaborators', 'name email');
+
+      return res.status(200).json({
+        success: true,
+        data: updatedItinerary,
+      });
+    } catch (error: any) {
+      console.error('Error regenerating itinerary content:', error);
+      return res.status(error instanceof ItineraryValidationError ? 502 : 500).json({
+        message: error.message || 'Server error',
+        issues: error instanceof ItineraryValidationError ? error.issues : undefined,
+      });
+    }
+  }
+
+  return res.status(405).json({ message: 'Method not allowed' });
+}
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { diffRevisions } from '@/lib/itineraryRevisions';
+
+/**
+ * GET ?from=N&to=M: day/activity-level changes from version N to version M
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const from = parseInt(String(req.query.from || ''), 10);
+  const to = parseInt(String(req.query.to || ''), 10);
+
+  if (!(from > 0) || !(to > 0)) {
+    return res.status(400).json({ message: 'Please provide the two versions to compare' });
+  }
+
+  try {
+    await dbConnect();
+
+    const id = String(req.query.id);
+
+    const itinerary = await Itinerary.exists({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const changes = await diffRevisions(id, from, to);
+
+    if (!changes) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { from, to, changes },
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
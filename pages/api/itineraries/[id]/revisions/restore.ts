@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import ItineraryRevision from '@/models/ItineraryRevision';
+import { applySnapshot, recordRevision, toSnapshot } from '@/lib/itineraryRevisions';
+
+/**
+ * POST: replace the itinerary's content with a stored version ({ version }).
+ * The restore is itself recorded as a new revision, so it can be undone.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    await dbConnect();
+
+    const { id } = req.query;
+    const { version } = req.body || {};
+
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      $or: [
+        { userId: session.user.id },
+        { collaborators: session.user.id },
+      ],
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found or you do not have permission' });
+    }
+
+    const revision = Number.isInteger(version)
+      ? await ItineraryRevision.findOne({ itineraryId: id, version }).lean()
+      : null;
+
+    if (!revision) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    const previous = toSnapshot(itinerary);
+    applySnapshot(itinerary, revision.snapshot);
+    await itinerary.save();
+    await recordRevision({
+      itinerary,
+      authorId: session.user.id,
+      action: 'restore',
+      description: `Restored version ${revision.version}`,
+      previous,
+    });
+
+    const updatedItinerary = await Itinerary.findById(id)
+      .populate('userId', 'name email')
+      .populate('collaborators', 'name email');
+
+    return res.status(200).json({
+      success: true,
+      data: updatedItinerary,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import { getGenerationQuota } from '@/lib/generationQuota';
+
+/**
+ * How many itinerary generations the user has left today
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  try {
+    await dbConnect();
+
+    const quota = await getGenerationQuota(session.user.id);
+
+    return res.status(200).json({
+      success: true,
+      data: quota,
+    });
+  } catch (error: any) {
+    console.error('Error fetching generation quota:', error);
+    return res.status(500).json({ message: error.message || 'Failed to fetch generation quota' });
+  }
+}
@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect, { getConnectionErrorMessage } from '@/lib/mongodb';
+import { generateItinerary, GenerationCancelledError } from '@/lib/gemini';
+import { ItineraryValidationError } from '@/lib/itinerarySchema';
+import { buildTripRequest, saveGeneratedItinerary } from '@/lib/itineraryGeneration';
+import { openEventStream, sendEvent } from '@/lib/sse';
+import { selectPromptTemplate } from '@/lib/promptTemplates';
+import { IGenerationProvenance } from '@/models/Itinerary';
+import { consumeGeneration } from '@/lib/generationQuota';
+import { RateLimitError, sendRateLimitError } from '@/lib/rateLimit';
+
+/**
+ * Streaming variant of /api/itineraries/generate.
+ *
+ * Responds with Server-Sent Events:
+ * - `day`: { index, day } as soon as each day has been generated
+ * - `complete`: { itinerary } once the itinerary is validated and saved
+ * - `error`: { message, issues? } if generation fails
+ *
+ * Closing the connection cancels generation and nothing is saved.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const { trip, error: tripError } = buildTripRequest(req.body);
+
+  if (!trip) {
+    return res.status(400).json({ message: tripError });
+  }
+
+  try {
+    await dbConnect();
+  } catch (dbError: any) {
+    console.error('Database connection error:', dbError);
+    return res.status(500).json({ message: getConnectionErrorMessage(dbError) });
+  }
+
+  try {
+    await consumeGeneration(session.user.id);
+  } catch (error: any) {
+    if (error instanceof RateLimitError) {
+      return sendRateLimitError(res, error);
+    }
+    throw error;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log('Client disconnected, cancelling itinerary generation');
+      controller.abort();
+    }
+  });
+
+  openEventStream(res);
+
+  let provenance: IGenerationProvenance | undefined;
+
+  try {
+    const parsedData = await generateItinerary(trip, {
+      userId: session.user.id,
+      signal: controller.signal,
+      onDay: (day, index) => sendEvent(res, 'day', { index, day }),
+      onProvenance: (result) => {
+        provenance = result;
+      },
+    }, selectPromptTemplate());
+
+    if (controller.signal.aborted) {
+      throw new GenerationCancelledError();
+    }
+
+    const itinerary = await saveGeneratedItinerary(session.user.id, trip, parsedData, provenance);
+    sendEvent(res, 'complete', { itinerary });
+  } catch (error: any) {
+    if (error instanceof GenerationCancelledError) {
+      console.log('Itinerary generation cancelled by client');
+    } else {
+      console.error('Error streaming itinerary:', error);
+      sendEvent(res, 'error', {
+        message: error.message || 'Failed to generate itinerary. Please try again.',
+        issues: error instanceof ItineraryValidationError ? error.issues : undefined,
+      });
+    }
+  } finally {
+    res.end();
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../auth/[...nextauth]';
 import dbConnect from '@/lib/mongodb';
 import Itinerary from '@/models/Itinerary';
+import { recordRevision } from '@/lib/itineraryRevisions';
+import { purgeExpiredTrashInBackground } from '@/lib/itineraryTrash';
 
 export default async function handler(
   req: NextApiRequest,
@@ -18,7 +20,11 @@ export default async function handler(
 
   if (req.method === 'GET') {
     try {
+      purgeExpiredTrashInBackground();
+
+      // Templates are listed separately, in the template library
       const itineraries = await Itinerary.find({
+        isTemplate: { $ne: true },
         $or: [
           { userId: session.user.id },
           { collaborators: session.user.id },
@@ -44,6 +50,8 @@ export default async function handler(
         userId: session.user.id,
       });
 
+      await recordRevision({ itinerary, authorId: session.user.id, action: 'create', description: 'Created itinerary' });
+
       return res.status(201).json({
         success: true,
         data: itinerary,
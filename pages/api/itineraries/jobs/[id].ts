@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import GenerationJob from '@/models/GenerationJob';
+import { cancelGenerationJob, failIfStale } from '@/lib/generationJobs';
+
+/**
+ * GET: status of a generation job, including the days generated so far
+ * DELETE: cancel a queued or running job
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const { id } = req.query;
+
+  await dbConnect();
+
+  if (req.method === 'GET') {
+    try {
+      const job = await GenerationJob.findOne({ _id: id, userId: session.user.id });
+
+      if (!job) {
+        return res.status(404).json({ message: 'Generation job not found' });
+      }
+
+      await failIfStale(job);
+
+      return res.status(200).json({
+        success: true,
+        data: job,
+      });
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message || 'Server error' });
+    }
+  }
+
+  if (req.method === 'DELETE') {
+    try {
+      const cancelled = await cancelGenerationJob(String(id), session.user.id);
+
+      if (!cancelled) {
+        return res.status(409).json({ message: 'Generation job has already finished' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Generation cancelled',
+      });
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message || 'Server error' });
+    }
+  }
+
+  return res.status(405).json({ message: 'Method not allowed' });
+}
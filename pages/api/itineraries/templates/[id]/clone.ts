@@ -0,0 +1,83 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { cloneTemplate } from '@/lib/itineraryTemplates';
+import { normalizeStartDate } from '@/lib/tripDates';
+import { normalizeParty } from '@/lib/travelerParty';
+import { consumeGeneration } from '@/lib/generationQuota';
+import { RateLimitError, sendRateLimitError } from '@/lib/rateLimit';
+import { ItineraryValidationError } from '@/lib/itinerarySchema';
+
+/**
+ * POST: creates an itinerary from one of the user's templates
+ * ({ title?, startDate?, party?, adapt? }). Adapting asks the model to fit the plan
+ * to the new dates and party, and counts against the generation quota.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  await dbConnect();
+
+  const { id } = req.query;
+
+  try {
+    const template = await Itinerary.findOne({
+      _id: id,
+      userId: session.user.id,
+      isTemplate: true,
+    });
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    const { title, party, adapt } = req.body || {};
+    const startDate = normalizeStartDate(req.body?.startDate);
+
+    if (req.body?.startDate && !startDate) {
+      return res.status(400).json({ message: 'Please provide a valid start date' });
+    }
+
+    if (adapt) {
+      try {
+        await consumeGeneration(session.user.id);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) {
+          return sendRateLimitError(res, error);
+        }
+        throw error;
+      }
+    }
+
+    const itinerary = await cloneTemplate(template, session.user.id, {
+      title: typeof title === 'string' ? title.trim() : undefined,
+      startDate,
+      party: party ? normalizeParty(party) : undefined,
+      adapt: Boolean(adapt),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: itinerary,
+    });
+  } catch (error: any) {
+    console.error('Error creating itinerary from template:', error);
+    return res.status(error instanceof ItineraryValidationError ? 502 : 500).json({
+      message: error.message || 'Server error',
+      issues: error instanceof ItineraryValidationError ? error.issues : undefined,
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { purgeItineraries } from '@/lib/itineraryTrash';
+
+/**
+ * PUT: restore a trashed itinerary
+ * DELETE: delete a trashed itinerary and its history permanently
+ * Only the owner can do either.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    await dbConnect();
+
+    const { id } = req.query;
+
+    const itinerary = await Itinerary.findOne({
+      _id: id,
+      userId: session.user.id,
+      deletedAt: { $ne: null },
+    });
+
+    if (!itinerary) {
+      return res.status(404).json({ message: 'Itinerary not found in your trash' });
+    }
+
+    if (req.method === 'DELETE') {
+      await purgeItineraries([itinerary._id.toString()]);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Itinerary deleted permanently',
+      });
+    }
+
+    itinerary.deletedAt = null;
+    itinerary.deletedBy = undefined;
+    await itinerary.save();
+
+    return res.status(200).json({
+      success: true,
+      data: itinerary,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
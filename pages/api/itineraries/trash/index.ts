@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Itinerary from '@/models/Itinerary';
+import { getPurgeDate, purgeExpiredTrashInBackground } from '@/lib/itineraryTrash';
+
+/**
+ * GET: the signed-in user's trashed itineraries, most recently deleted first,
+ * each with the date it will be purged (purgeAt, null when trash is kept)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    await dbConnect();
+    purgeExpiredTrashInBackground();
+
+    const itineraries = await Itinerary.find({
+      userId: session.user.id,
+      deletedAt: { $ne: null },
+    })
+      .select('title destination totalDays startDate isTemplate deletedAt collaborators')
+      .sort({ deletedAt: -1 })
+      .lean();
+
+    // Itineraries past their purge date are left out until the background purge removes them
+    const now = Date.now();
+    const data = itineraries
+      .map((itinerary) => ({
+        ...itinerary,
+        purgeAt: itinerary.deletedAt ? getPurgeDate(itinerary.deletedAt) : null,
+      }))
+      .filter((itinerary) => !itinerary.purgeAt || itinerary.purgeAt.getTime() > now);
+
+    return res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
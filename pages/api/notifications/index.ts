@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import Notification from '@/models/Notification';
+
+const UNREAD_LIMIT = 20;
+
+/**
+ * GET: the signed-in user's unread notifications, newest first
+ * PUT: mark notifications as read ({ ids }, or all of them when ids is omitted)
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  try {
+    await dbConnect();
+
+    if (req.method === 'GET') {
+      const notifications = await Notification.find({ userId: session.user.id, read: false })
+        .sort({ createdAt: -1 })
+        .limit(UNREAD_LIMIT)
+        .lean();
+
+      return res.status(200).json({ success: true, data: notifications });
+    }
+
+    if (req.method === 'PUT') {
+      const { ids } = req.body || {};
+      const filter: Record<string, any> = { userId: session.user.id, read: false };
+
+      if (Array.isArray(ids)) {
+        filter._id = { $in: ids };
+      }
+
+      await Notification.updateMany(filter, { read: true });
+
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
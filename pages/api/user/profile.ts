@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../auth/[...nextauth]';
 import dbConnect from '@/lib/mongodb';
 import User from '@/models/User';
+import { normalizeConstraints } from '@/lib/tripConstraints';
+import { normalizeCurrencyPreference } from '@/lib/currencyUtils';
 
 export default async function handler(
   req: NextApiRequest,
@@ -35,11 +37,22 @@ export default async function handler(
 
   if (req.method === 'PUT') {
     try {
-      const { name, image } = req.body;
+      const { name, image, travelConstraints, homeCurrency, locale } = req.body;
+      const update: Record<string, any> = { name, image };
+
+      if (travelConstraints !== undefined) {
+        update.travelConstraints = normalizeConstraints(travelConstraints);
+      }
+
+      if (homeCurrency !== undefined || locale !== undefined) {
+        const preference = normalizeCurrencyPreference({ currency: homeCurrency, locale });
+        update.homeCurrency = preference.currency;
+        update.locale = preference.locale;
+      }
 
       const user = await User.findByIdAndUpdate(
         session.user.id,
-        { name, image },
+        update,
         { new: true, runValidators: true }
       ).select('-password');
 
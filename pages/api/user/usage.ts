@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '../auth/[...nextauth]';
+import dbConnect from '@/lib/mongodb';
+import { getUserUsage } from '@/lib/usageLedger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET: the signed-in user's AI usage totals, for the last 30 days and all time
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const session = await getServerSession(req, res, authOptions);
+
+  if (!session || !session.user) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  try {
+    await dbConnect();
+
+    const [lastThirtyDays, allTime] = await Promise.all([
+      getUserUsage(session.user.id, new Date(Date.now() - 30 * DAY_MS)),
+      getUserUsage(session.user.id),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      data: { lastThirtyDays, allTime },
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error.message || 'Server error' });
+  }
+}
@@ -1,9 +1,19 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
 import toast from 'react-hot-toast';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { FiMapPin, FiCalendar, FiDollarSign, FiHeart } from 'react-icons/fi';
+import ConstraintsEditor from '@/components/ConstraintsEditor';
+import TemplatePicker from '@/components/TemplatePicker';
+import { IDay, ITripConstraints } from '@/models/Itinerary';
+import { IGenerationJob } from '@/models/GenerationJob';
+import { formatTripDate, getEndDate, isCalendarDate } from '@/lib/tripDates';
+import { MOBILITY_OPTIONS, PACE_OPTIONS } from '@/lib/travelerParty';
+import { EMPTY_CONSTRAINTS } from '@/lib/tripConstraints';
+import type { GenerationQuota } from '@/lib/generationQuota';
+import { formatMoney } from '@/lib/currencyUtils';
+import { useCurrency } from '@/components/CurrencyProvider';
+import { FiMapPin, FiCalendar, FiDollarSign, FiHeart, FiClock, FiPlus, FiTrash2, FiUsers, FiActivity, FiShield } from 'react-icons/fi';
 
 const INTERESTS_OPTIONS = [
   'Sightseeing',
@@ -20,15 +30,68 @@ const INTERESTS_OPTIONS = [
   'Photography',
 ];
 
+// How often the create page checks on a running generation job
+const POLL_INTERVAL_MS = 1500;
+
 export default function Create() {
   const router = useRouter();
+  const { preference } = useCurrency();
   const [loading, setLoading] = useState(false);
+  const [streamedDays, setStreamedDays] = useState<IDay[]>([]);
+  const jobRef = useRef<string | null>(null);
+  const cancelledRef = useRef(false);
   const [formData, setFormData] = useState({
     destination: '',
     days: '',
     budget: '',
+    startDate: '',
     interests: [] as string[],
+    adults: '1',
+    seniors: '0',
+    pace: 'moderate',
+    mobility: [] as string[],
   });
+  const [childAges, setChildAges] = useState<string[]>([]);
+  const [constraints, setConstraints] = useState<ITripConstraints>(EMPTY_CONSTRAINTS);
+  const [multiCity, setMultiCity] = useState(false);
+  const [fresh, setFresh] = useState(false);
+  const [quota, setQuota] = useState<GenerationQuota | null>(null);
+  const [legs, setLegs] = useState([
+    { city: '', nights: '2' },
+    { city: '', nights: '2' },
+  ]);
+
+  // A multi-city trip has one day per night plus a departure day
+  const legNights = legs.reduce((total, leg) => total + (parseInt(leg.nights) || 0), 0);
+  const totalDays = multiCity ? legNights + 1 : parseInt(formData.days || '0');
+  const endDate = isCalendarDate(formData.startDate) && totalDays > 0
+    ? getEndDate(formData.startDate, totalDays)
+    : '';
+
+  // Start from the requirements saved on the user's profile
+  useEffect(() => {
+    fetch('/api/user/profile')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.data?.travelConstraints) {
+          setConstraints({ ...EMPTY_CONSTRAINTS, ...data.data.travelConstraints });
+        }
+      })
+      .catch(() => {});
+
+    fetchQuota();
+  }, []);
+
+  const fetchQuota = () => {
+    fetch('/api/itineraries/generate/quota')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setQuota(data?.data || null))
+      .catch(() => {});
+  };
+
+  const updateLeg = (index: number, field: 'city' | 'nights', value: string) => {
+    setLegs((prev) => prev.map((leg, i) => (i === index ? { ...leg, [field]: value } : leg)));
+  };
 
   const handleInterestToggle = (interest: string) => {
     setFormData((prev) => ({
@@ -39,15 +102,47 @@ export default function Create() {
     }));
   };
 
+  const handleMobilityToggle = (option: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      mobility: prev.mobility.includes(option)
+        ? prev.mobility.filter((m) => m !== option)
+        : [...prev.mobility, option],
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.destination || !formData.days || !formData.budget) {
+    if (multiCity) {
+      if (legs.some((leg) => !leg.city.trim() || !(parseInt(leg.nights) > 0)) || !formData.budget) {
+        toast.error('Please enter a city and number of nights for every leg');
+        return;
+      }
+    } else if (!formData.destination || !formData.days || !formData.budget) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (!(parseInt(formData.adults) > 0) && !(parseInt(formData.seniors) > 0)) {
+      toast.error('At least one adult or senior must be travelling');
+      return;
+    }
+
+    const { adults, seniors, ...tripFields } = formData;
+    const payload = {
+      ...tripFields,
+      party: { adults, seniors, childAges },
+      constraints,
+      // The budget is entered in the home currency and stored in INR
+      currency: preference.currency,
+      fresh,
+      ...(multiCity ? { legs } : {}),
+    };
+
     setLoading(true);
+    setStreamedDays([]);
+    cancelledRef.current = false;
 
     try {
       const res = await fetch('/api/itineraries/generate', {
@@ -55,7 +150,7 @@ export default function Create() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(payload),
       });
 
       const data = await res.json();
@@ -67,12 +162,27 @@ export default function Create() {
         throw new Error(errorMessage);
       }
 
-      if (!data.success || !data.data) {
+      // Cached results come back as a job that has already succeeded
+      const cached = data.data.status === 'succeeded';
+      jobRef.current = data.data._id;
+      const job = cached ? data.data : await waitForJob(data.data._id);
+
+      if (!job) {
+        toast('Itinerary generation cancelled');
+        return;
+      }
+
+      if (job.status === 'failed') {
+        console.error('Full response:', job);
+        throw new Error(job.error?.message || 'Failed to generate itinerary');
+      }
+
+      if (!job.itineraryId) {
         throw new Error('Invalid response from server');
       }
 
-      toast.success('Itinerary generated successfully!');
-      router.push(`/itineraries/${data.data._id}`);
+      toast.success(cached ? 'Found a matching itinerary from a recent generation!' : 'Itinerary generated successfully!');
+      router.push(`/itineraries/${job.itineraryId}`);
     } catch (error: any) {
       console.error('Error generating itinerary:', error);
       let errorMessage = error.message || 'Failed to generate itinerary. Please check your API keys and try again.';
@@ -87,10 +197,46 @@ export default function Create() {
         toast.error(errorMessage, { duration: 5000 });
       }
     } finally {
+      jobRef.current = null;
       setLoading(false);
+      fetchQuota();
+    }
+  };
+
+  // Polls the generation job until it finishes; returns null if the user cancelled
+  const waitForJob = async (jobId: string): Promise<IGenerationJob | null> => {
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+      if (cancelledRef.current) {
+        return null;
+      }
+
+      const res = await fetch(`/api/itineraries/jobs/${jobId}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to check generation progress');
+      }
+
+      const job: IGenerationJob = data.data;
+      setStreamedDays((job.partialDays || []) as IDay[]);
+
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        return job;
+      }
     }
   };
 
+  const handleCancel = () => {
+    if (jobRef.current) {
+      cancelledRef.current = true;
+      fetch(`/api/itineraries/jobs/${jobRef.current}`, { method: 'DELETE' }).catch(() => {});
+      return;
+    }
+    router.back();
+  };
+
   return (
     <ProtectedRoute>
       <Layout>
@@ -98,54 +244,143 @@ export default function Create() {
           <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="bg-white rounded-2xl shadow-xl p-8">
               <h1 className="text-3xl font-bold text-gray-900 mb-2">Create New Itinerary</h1>
-              <p className="text-gray-600 mb-8">Tell us about your trip and we'll create a detailed plan</p>
+              <p className="text-gray-600 mb-8">
+                Tell us about your trip and we'll create a detailed plan
+                {quota?.remaining != null && (
+                  <span className={`ml-2 text-sm font-medium ${quota.remaining === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                    · {quota.remaining} generation{quota.remaining === 1 ? '' : 's'} left today
+                  </span>
+                )}
+              </p>
+
+              <TemplatePicker
+                initialTemplateId={typeof router.query.template === 'string' ? router.query.template : undefined}
+                onCreated={(itinerary) => {
+                  fetchQuota();
+                  router.push(`/itineraries/${itinerary._id}`);
+                }}
+              />
 
               <form onSubmit={handleSubmit} className="space-y-8">
-                <div>
-                  <label htmlFor="destination" className="flex items-center text-sm font-medium text-gray-700 mb-2">
-                    <FiMapPin className="w-5 h-5 mr-2 text-blue-600" />
-                    Destination *
-                  </label>
-                  <input
-                    type="text"
-                    id="destination"
-                    required
-                    placeholder="e.g., Paris, France"
-                    value={formData.destination}
-                    onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
-                  />
+                <div className="flex rounded-lg border border-gray-300 p-1 w-fit">
+                  {[false, true].map((option) => (
+                    <button
+                      key={String(option)}
+                      type="button"
+                      onClick={() => setMultiCity(option)}
+                      className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                        multiCity === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option ? 'Multi-city' : 'Single destination'}
+                    </button>
+                  ))}
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {multiCity ? (
                   <div>
-                    <label htmlFor="days" className="flex items-center text-sm font-medium text-gray-700 mb-2">
-                      <FiCalendar className="w-5 h-5 mr-2 text-purple-600" />
-                      Number of Days *
+                    <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                      <FiMapPin className="w-5 h-5 mr-2 text-blue-600" />
+                      Cities, in travel order *
+                    </label>
+                    <div className="space-y-3">
+                      {legs.map((leg, index) => (
+                        <div key={index} className="flex items-center gap-3">
+                          <span className="w-6 text-sm font-semibold text-gray-500">{index + 1}.</span>
+                          <input
+                            type="text"
+                            placeholder={['e.g., Delhi', 'e.g., Agra', 'e.g., Jaipur'][index] || 'City'}
+                            value={leg.city}
+                            onChange={(e) => updateLeg(index, 'city', e.target.value)}
+                            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                          />
+                          <input
+                            type="number"
+                            min="1"
+                            max="30"
+                            aria-label="Nights"
+                            value={leg.nights}
+                            onChange={(e) => updateLeg(index, 'nights', e.target.value)}
+                            className="w-24 px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                          />
+                          <span className="text-sm text-gray-500">nights</span>
+                          <button
+                            type="button"
+                            onClick={() => setLegs((prev) => prev.filter((_, i) => i !== index))}
+                            disabled={legs.length <= 2}
+                            className="text-red-600 hover:text-red-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                          >
+                            <FiTrash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setLegs((prev) => [...prev, { city: '', nights: '1' }])}
+                      className="mt-3 flex items-center text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <FiPlus className="w-4 h-4 mr-1" />
+                      Add city
+                    </button>
+                  </div>
+                ) : (
+                  <div>
+                    <label htmlFor="destination" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                      <FiMapPin className="w-5 h-5 mr-2 text-blue-600" />
+                      Destination *
                     </label>
                     <input
-                      type="number"
-                      id="days"
+                      type="text"
+                      id="destination"
                       required
-                      min="1"
-                      max="30"
-                      placeholder="e.g., 5"
-                      value={formData.days}
-                      onChange={(e) => setFormData({ ...formData, days: e.target.value })}
+                      placeholder="e.g., Paris, France"
+                      value={formData.destination}
+                      onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
                     />
                   </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label htmlFor="days" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                      <FiCalendar className="w-5 h-5 mr-2 text-purple-600" />
+                      Number of Days *
+                    </label>
+                    {multiCity ? (
+                      <input
+                        type="number"
+                        id="days"
+                        disabled
+                        value={totalDays}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-gray-50 text-gray-500 cursor-not-allowed"
+                      />
+                    ) : (
+                      <input
+                        type="number"
+                        id="days"
+                        required
+                        min="1"
+                        max="30"
+                        placeholder="e.g., 5"
+                        value={formData.days}
+                        onChange={(e) => setFormData({ ...formData, days: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                      />
+                    )}
+                  </div>
 
                   <div>
                     <label htmlFor="budget" className="flex items-center text-sm font-medium text-gray-700 mb-2">
                       <FiDollarSign className="w-5 h-5 mr-2 text-green-600" />
-                      Budget *
+                      Budget ({preference.currency}) *
                     </label>
                     <input
                       type="text"
                       id="budget"
                       required
-                      placeholder="e.g., ₹50,000"
+                      placeholder={`e.g., ${formatMoney(50000, preference)}`}
                       value={formData.budget}
                       onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
                       className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
@@ -153,6 +388,146 @@ export default function Create() {
                   </div>
                 </div>
 
+                <div>
+                  <label htmlFor="startDate" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                    <FiCalendar className="w-5 h-5 mr-2 text-purple-600" />
+                    Start Date (optional)
+                  </label>
+                  <input
+                    type="date"
+                    id="startDate"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                  />
+                  {endDate && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      Ends {formatTripDate(endDate)}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+                    <FiUsers className="w-5 h-5 mr-2 text-blue-600" />
+                    Who&apos;s Travelling
+                  </label>
+                  <div className="grid grid-cols-2 gap-4 mb-3">
+                    <div>
+                      <label htmlFor="adults" className="block text-sm text-gray-600 mb-1">Adults</label>
+                      <input
+                        type="number"
+                        id="adults"
+                        min="0"
+                        max="20"
+                        value={formData.adults}
+                        onChange={(e) => setFormData({ ...formData, adults: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="seniors" className="block text-sm text-gray-600 mb-1">Seniors (65+)</label>
+                      <input
+                        type="number"
+                        id="seniors"
+                        min="0"
+                        max="20"
+                        value={formData.seniors}
+                        onChange={(e) => setFormData({ ...formData, seniors: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                  {childAges.length > 0 && (
+                    <div className="flex flex-wrap gap-3 mb-3">
+                      {childAges.map((age, index) => (
+                        <div key={index} className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min="0"
+                            max="17"
+                            placeholder="Age"
+                            aria-label={`Age of child ${index + 1}`}
+                            value={age}
+                            onChange={(e) => setChildAges((prev) => prev.map((a, i) => (i === index ? e.target.value : a)))}
+                            className="w-20 px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setChildAges((prev) => prev.filter((_, i) => i !== index))}
+                            title="Remove child"
+                            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <FiTrash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setChildAges((prev) => [...prev, ''])}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <FiPlus className="w-4 h-4 mr-1" />
+                    Add child
+                  </button>
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+                    <FiActivity className="w-5 h-5 mr-2 text-orange-600" />
+                    Pace
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {PACE_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, pace: option.value })}
+                        className={`px-4 py-2 rounded-lg border-2 text-left transition-all ${
+                          formData.pace === option.value
+                            ? 'border-blue-600 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 hover:border-blue-400 text-gray-700'
+                        }`}
+                      >
+                        <span className="block font-semibold">{option.label}</span>
+                        <span className="block text-xs">{option.description}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+                    Mobility Needs (optional)
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {MOBILITY_OPTIONS.map((option) => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => handleMobilityToggle(option)}
+                        className={`px-4 py-2 rounded-lg border-2 transition-all ${
+                          formData.mobility.includes(option)
+                            ? 'border-blue-600 bg-blue-50 text-blue-700 font-semibold'
+                            : 'border-gray-300 hover:border-blue-400 text-gray-700'
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+                    <FiShield className="w-5 h-5 mr-2 text-teal-600" />
+                    Requirements (optional)
+                  </label>
+                  <ConstraintsEditor value={constraints} onChange={setConstraints} />
+                </div>
+
                 <div>
                   <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
                     <FiHeart className="w-5 h-5 mr-2 text-red-600" />
@@ -176,13 +551,23 @@ export default function Create() {
                   </div>
                 </div>
 
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={fresh}
+                    onChange={(e) => setFresh(e.target.checked)}
+                    className="w-4 h-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  Generate fresh (skip recently generated itineraries for the same trip)
+                </label>
+
                 <div className="flex items-center justify-between pt-4">
                   <button
                     type="button"
-                    onClick={() => router.back()}
+                    onClick={handleCancel}
                     className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
                   >
-                    Cancel
+                    {loading ? 'Stop Generating' : 'Cancel'}
                   </button>
                   <button
                     type="submit"
@@ -193,6 +578,39 @@ export default function Create() {
                   </button>
                 </div>
               </form>
+
+              {loading && (
+                <div className="mt-8 border-t pt-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Building your itinerary</h2>
+                    <span className="text-sm text-gray-500">
+                      {streamedDays.filter(Boolean).length} of {totalDays} days ready
+                    </span>
+                  </div>
+                  <div className="space-y-3">
+                    {streamedDays.filter(Boolean).map((day, index) => (
+                      <div key={index} className="border border-gray-200 rounded-lg p-4">
+                        <p className="font-semibold text-gray-900 mb-2">Day {day.day || index + 1}</p>
+                        <ul className="space-y-1">
+                          {(day.activities || []).map((activity, activityIndex) => (
+                            <li key={activityIndex} className="flex items-center text-sm text-gray-600">
+                              <FiClock className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+                              <span className="font-medium mr-2">{activity.time}</span>
+                              <span className="truncate">{activity.title}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                    <div className="flex items-center text-sm text-gray-500">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                      {streamedDays.filter(Boolean).length < totalDays
+                        ? 'Planning the next day...'
+                        : 'Checking and saving your itinerary...'}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -5,23 +5,119 @@ import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import ItineraryCard from '@/components/ItineraryCard';
 import { IItinerary } from '@/models/Itinerary';
-import { FiPlus, FiSearch } from 'react-icons/fi';
+import { FiPlus, FiSearch, FiTrash2, FiRotateCcw, FiBell, FiX } from 'react-icons/fi';
+import { format } from 'date-fns';
 import Link from 'next/link';
 import toast from 'react-hot-toast';
 
+// A trashed itinerary as listed by /api/itineraries/trash
+interface TrashedItinerary {
+  _id: string;
+  title: string;
+  destination: string;
+  isTemplate?: boolean;
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
+interface UnreadNotification {
+  _id: string;
+  message: string;
+  createdAt: string;
+}
+
 export default function Dashboard() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [itineraries, setItineraries] = useState<IItinerary[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showTrash, setShowTrash] = useState(false);
+  const [trash, setTrash] = useState<TrashedItinerary[]>([]);
+  const [notifications, setNotifications] = useState<UnreadNotification[]>([]);
 
   useEffect(() => {
     if (status === 'authenticated') {
       fetchItineraries();
+      fetchTrash();
+      fetchNotifications();
     }
   }, [status]);
 
+  const fetchTrash = async () => {
+    try {
+      const res = await fetch('/api/itineraries/trash');
+      const data = await res.json();
+
+      if (res.ok) {
+        setTrash(data.data || []);
+      }
+    } catch (error: any) {
+      // The trash view simply stays empty
+    }
+  };
+
+  const fetchNotifications = async () => {
+    try {
+      const res = await fetch('/api/notifications');
+      const data = await res.json();
+
+      if (res.ok) {
+        setNotifications(data.data || []);
+      }
+    } catch (error: any) {
+      // Notifications are optional
+    }
+  };
+
+  const handleDismissNotifications = async () => {
+    setNotifications([]);
+    await fetch('/api/notifications', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({}),
+    }).catch(() => {});
+  };
+
+  const handleRestore = async (itinerary: TrashedItinerary) => {
+    try {
+      const res = await fetch(`/api/itineraries/trash/${itinerary._id}`, { method: 'PUT' });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(`"${itinerary.title}" restored`);
+        fetchTrash();
+        fetchItineraries();
+      } else {
+        toast.error(data.message || 'Failed to restore itinerary');
+      }
+    } catch (error: any) {
+      toast.error('Failed to restore itinerary');
+    }
+  };
+
+  const handlePurge = async (itinerary: TrashedItinerary) => {
+    if (!confirm(`Permanently delete "${itinerary.title}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/itineraries/trash/${itinerary._id}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Itinerary deleted permanently');
+        setTrash(trash.filter((entry) => entry._id !== itinerary._id));
+      } else {
+        toast.error(data.message || 'Failed to delete itinerary');
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete itinerary');
+    }
+  };
+
   const fetchItineraries = async () => {
     try {
       const res = await fetch('/api/itineraries');
@@ -56,47 +152,130 @@ export default function Dashboard() {
               <p className="text-gray-600">Manage and plan your trips</p>
             </div>
 
-            {itineraries.length > 0 && (
-              <div className="mb-6">
-                <div className="relative">
-                  <FiSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                  <input
-                    type="text"
-                    placeholder="Search itineraries..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
-                  />
+            {notifications.length > 0 && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+                <div className="flex items-start justify-between gap-4">
+                  <ul className="space-y-1">
+                    {notifications.map((notification) => (
+                      <li key={notification._id} className="flex items-start text-sm text-amber-800">
+                        <FiBell className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                        <span>{notification.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={handleDismissNotifications}
+                    title="Dismiss"
+                    className="p-1 text-amber-700 hover:text-amber-900"
+                  >
+                    <FiX className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             )}
 
-            {loading ? (
-              <div className="flex items-center justify-center py-20">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            {(trash.length > 0 || showTrash) && (
+              <div className="flex gap-2 mb-6">
+                <button
+                  onClick={() => setShowTrash(false)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium ${!showTrash ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                >
+                  My Trips
+                </button>
+                <button
+                  onClick={() => setShowTrash(true)}
+                  className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium ${showTrash ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                >
+                  <FiTrash2 className="w-4 h-4 mr-2" />
+                  Trash ({trash.length})
+                </button>
               </div>
-            ) : filteredItineraries.length === 0 ? (
-              <div className="text-center py-20 bg-white rounded-xl shadow-lg">
-                {searchQuery ? (
-                  <>
-                    <p className="text-gray-600 mb-4">No itineraries found matching your search.</p>
-                    <button
-                      onClick={() => setSearchQuery('')}
-                      className="text-blue-600 hover:text-blue-700"
-                    >
-                      Clear search
-                    </button>
-                  </>
+            )}
+
+            {showTrash ? (
+              trash.length === 0 ? (
+                <div className="text-center py-20 bg-white rounded-xl shadow-lg">
+                  <p className="text-gray-600">The trash is empty.</p>
+                </div>
+              ) : (
+                <div className="bg-white rounded-xl shadow-lg divide-y">
+                  {trash.map((itinerary) => (
+                    <div key={itinerary._id} className="flex items-center justify-between gap-4 p-4">
+                      <div>
+                        <p className="font-semibold text-gray-900">
+                          {itinerary.title}
+                          {itinerary.isTemplate && <span className="ml-2 text-xs font-normal text-blue-700">Template</span>}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          Deleted {format(new Date(itinerary.deletedAt), 'MMM d, yyyy')}
+                          {itinerary.purgeAt && ` · permanently deleted on ${format(new Date(itinerary.purgeAt), 'MMM d, yyyy')}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleRestore(itinerary)}
+                          className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                          <FiRotateCcw className="w-4 h-4" />
+                          <span>Restore</span>
+                        </button>
+                        <button
+                          onClick={() => handlePurge(itinerary)}
+                          className="flex items-center space-x-1 px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors"
+                        >
+                          <FiTrash2 className="w-4 h-4" />
+                          <span>Delete forever</span>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )
+            ) : (
+              <>
+                {itineraries.length > 0 && (
+                  <div className="mb-6">
+                    <div className="relative">
+                      <FiSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      <input
+                        type="text"
+                        placeholder="Search itineraries..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-20">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : filteredItineraries.length === 0 ? (
+                  <div className="text-center py-20 bg-white rounded-xl shadow-lg">
+                    {searchQuery ? (
+                      <>
+                        <p className="text-gray-600 mb-4">No itineraries found matching your search.</p>
+                        <button
+                          onClick={() => setSearchQuery('')}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          Clear search
+                        </button>
+                      </>
+                    ) : (
+                      <p className="text-gray-600 mb-6 text-lg">You haven't created any itineraries yet.</p>
+                    )}
+                  </div>
                 ) : (
-                  <p className="text-gray-600 mb-6 text-lg">You haven't created any itineraries yet.</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {filteredItineraries.map((itinerary) => (
+                      <ItineraryCard key={itinerary._id} itinerary={itinerary} />
+                    ))}
+                  </div>
                 )}
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredItineraries.map((itinerary) => (
-                  <ItineraryCard key={itinerary._id} itinerary={itinerary} />
-                ))}
-              </div>
+              </>
             )}
           </div>
         </div>
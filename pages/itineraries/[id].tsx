@@ -4,7 +4,13 @@ import toast from 'react-hot-toast';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AudioGuide from '@/components/AudioGuide';
-import { IItinerary, IDay, IActivity } from '@/models/Itinerary';
+import RefinePanel from '@/components/RefinePanel';
+import RevisionHistory from '@/components/RevisionHistory';
+import BookingsPanel from '@/components/BookingsPanel';
+import ExpenseTracker, { ExpenseEntry } from '@/components/ExpenseTracker';
+import PinPicker from '@/components/PinPicker';
+import { IItinerary, IDay, IActivity, ITravelerParty } from '@/models/Itinerary';
+import { IBooking } from '@/models/Booking';
 import { useSession } from 'next-auth/react';
 import {
   FiMapPin,
@@ -21,29 +27,79 @@ import {
   FiGlobe,
   FiMessageCircle,
   FiSun,
+  FiRefreshCw,
+  FiAlertTriangle,
+  FiCrosshair,
+  FiBookmark,
 } from 'react-icons/fi';
 import { format } from 'date-fns';
 import Link from 'next/link';
 import { downloadItineraryPDF } from '@/lib/pdfGenerator';
-import { formatCostToINR } from '@/lib/currencyUtils';
+import { formatCost, formatMoney, formatMoneyValue, moneyToINR, parseMoney } from '@/lib/currencyUtils';
+import { useCurrency } from '@/components/CurrencyProvider';
+import { formatTripDate, isCalendarDate } from '@/lib/tripDates';
+import { describeParty, formatPerPersonCost, PACE_OPTIONS, partySize } from '@/lib/travelerParty';
+import { checkConstraints, ConstraintViolation } from '@/lib/tripConstraints';
+import { checkBudget, DayBudget, hasTotalMismatch, withComputedTotals } from '@/lib/budgetCompliance';
+import { checkSchedule, ScheduleIssue } from '@/lib/activitySchedule';
+import { BookingConflict, checkBookingConflicts, describeBookingTime, getBookingTypeLabel, isBookingOnDate } from '@/lib/bookings';
 
 export default function ItineraryDetail() {
   const router = useRouter();
   const { id } = router.query;
   const { data: session } = useSession();
+  const { preference } = useCurrency();
   const [itinerary, setItinerary] = useState<IItinerary | null>(null);
+  const [bookings, setBookings] = useState<IBooking[]>([]);
+  const [expenses, setExpenses] = useState<ExpenseEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [collaboratorEmail, setCollaboratorEmail] = useState('');
   const [addingCollaborator, setAddingCollaborator] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
   const [downloading, setDownloading] = useState(false);
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const [updatingDates, setUpdatingDates] = useState(false);
+  const [fittingBudget, setFittingBudget] = useState(false);
+  // The activity whose map pin is being edited
+  const [pinTarget, setPinTarget] = useState<{ dayIndex: number; activityIndex: number } | null>(null);
 
   useEffect(() => {
     if (id) {
       fetchItinerary();
+      fetchBookings();
+      fetchExpenses();
     }
   }, [id]);
 
+  // Bookings are private to the owner and collaborators; others get a 404 and see none
+  const fetchBookings = async () => {
+    try {
+      const res = await fetch(`/api/itineraries/${id}/bookings`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setBookings(data.data || []);
+      }
+    } catch (error: any) {
+      // The itinerary is shown without bookings
+    }
+  };
+
+  // Expenses are private to the owner and collaborators, like bookings
+  const fetchExpenses = async () => {
+    try {
+      const res = await fetch(`/api/itineraries/${id}/expenses`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setExpenses(data.data || []);
+      }
+    } catch (error: any) {
+      // The itinerary is shown without expenses
+    }
+  };
+
   const fetchItinerary = async () => {
     try {
       const res = await fetch(`/api/itineraries/${id}`);
@@ -126,7 +182,7 @@ export default function ItineraryDetail() {
   };
 
   const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this itinerary? This action cannot be undone.')) {
+    if (!confirm('Move this itinerary to the trash? You can restore it from your dashboard.')) {
       return;
     }
 
@@ -140,8 +196,8 @@ export default function ItineraryDetail() {
       const data = await res.json();
 
       if (res.ok) {
-        toast.success('Itinerary deleted successfully!');
-        router.push('/');
+        toast.success('Itinerary moved to trash');
+        router.push('/dashboard');
       } else {
         toast.error(data.message || 'Failed to delete itinerary');
       }
@@ -152,6 +208,37 @@ export default function ItineraryDetail() {
     }
   };
 
+  const handleSaveAsTemplate = async () => {
+    const title = prompt('Template name:', itinerary?.title);
+    if (title === null) {
+      return;
+    }
+
+    setSavingTemplate(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${id}/template`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Saved to your templates');
+      } else {
+        toast.error(data.message || 'Failed to save template');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
   const handleDownloadPDF = async () => {
     if (!itinerary) return;
 
@@ -160,7 +247,7 @@ export default function ItineraryDetail() {
       // Small delay to show loading state
       await new Promise(resolve => setTimeout(resolve, 300));
       
-      downloadItineraryPDF(itinerary);
+      downloadItineraryPDF(itinerary, preference, bookings);
       toast.success('PDF downloaded successfully!');
     } catch (error: any) {
       console.error('Error generating PDF:', error);
@@ -170,11 +257,189 @@ export default function ItineraryDetail() {
     }
   };
 
+  const handleRegenerate = async (dayIndex: number, activityIndex?: number) => {
+    const target = activityIndex === undefined ? `day ${dayIndex + 1}` : 'this activity';
+    const instructions = prompt(`Regenerate ${target}. Any instructions? (e.g. "more museums", "cheaper") - leave blank for none`);
+
+    if (instructions === null) {
+      return;
+    }
+
+    setRegenerating(activityIndex === undefined ? `${dayIndex}` : `${dayIndex}-${activityIndex}`);
+
+    try {
+      const res = await fetch(`/api/itineraries/${id}/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dayIndex, activityIndex, instructions }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(activityIndex === undefined ? `Day ${dayIndex + 1} regenerated!` : 'Activity regenerated!');
+        setItinerary(data.data);
+      } else {
+        toast.error(data.message || 'Failed to regenerate');
+      }
+    } catch (error: any) {
+      toast.error('Failed to regenerate');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  // Saves a manual pin, or removes it when position is null
+  const handlePin = async (position: { lat: number; lng: number } | null) => {
+    if (!pinTarget) {
+      return;
+    }
+
+    const { dayIndex, activityIndex } = pinTarget;
+    const removing = !position;
+    setPinTarget(null);
+
+    try {
+      const res = await fetch(`/api/itineraries/${id}/pin`, {
+        method: removing ? 'DELETE' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dayIndex, activityIndex, ...position }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(removing ? 'Pin removed' : 'Location pinned!');
+        setItinerary(data.data);
+      } else {
+        toast.error(data.message || 'Failed to update location');
+      }
+    } catch (error: any) {
+      toast.error('Failed to update location');
+    }
+  };
+
+  const handleStartDateChange = async (startDate: string) => {
+    setUpdatingDates(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ startDate: startDate || null }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(startDate ? 'Trip dates updated!' : 'Trip dates cleared');
+        setItinerary(data.data);
+      } else {
+        toast.error(data.message || 'Failed to update dates');
+      }
+    } catch (error: any) {
+      toast.error('Failed to update dates');
+    } finally {
+      setUpdatingDates(false);
+    }
+  };
+
+  const handleFitToBudget = async () => {
+    if (!confirm('Replace the most expensive activities with cheaper alternatives to fit your budget?')) {
+      return;
+    }
+
+    setFittingBudget(true);
+
+    try {
+      const res = await fetch(`/api/itineraries/${id}/fit-budget`, { method: 'POST' });
+      const data = await res.json();
+
+      if (res.ok) {
+        if (data.fits) {
+          toast.success('Itinerary now fits your budget!');
+        } else {
+          toast('Costs were reduced, but the trip is still over budget', { icon: '⚠️' });
+        }
+        setItinerary(data.data);
+      } else {
+        toast.error(data.message || 'Failed to fit itinerary to budget');
+      }
+    } catch (error: any) {
+      toast.error('Failed to fit itinerary to budget');
+    } finally {
+      setFittingBudget(false);
+    }
+  };
+
+  const handleFixTotals = async () => {
+    if (!itinerary) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/itineraries/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(withComputedTotals(itinerary)),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Totals updated from activity costs');
+        setItinerary(data.data);
+      } else {
+        toast.error(data.message || 'Failed to update totals');
+      }
+    } catch (error: any) {
+      toast.error('Failed to update totals');
+    }
+  };
+
   const isOwner = itinerary && session?.user?.id === itinerary.userId?.toString();
   const isCollaborator = itinerary && itinerary.collaborators?.some(
     (collab) => collab.toString() === session?.user?.id || (typeof collab === 'object' && collab._id?.toString() === session?.user?.id)
   );
 
+  // Activities that appear to conflict with the trip's dietary/accessibility/religious requirements
+  const violations = itinerary ? checkConstraints(itinerary) : [];
+  // Activity costs recomputed against the stated totals and the budget
+  const budgetReport = itinerary ? checkBudget(itinerary) : null;
+  const totalsMismatch = !!budgetReport && hasTotalMismatch(budgetReport);
+  // Overlapping activities, long gaps and activities running past midnight
+  const scheduleIssues = itinerary ? checkSchedule(itinerary.days) : [];
+  // Scheduled activities that clash with a confirmed booking
+  const bookingConflicts = itinerary ? checkBookingConflicts(itinerary.days, bookings) : [];
+
+  const renderDayCard = (day: IDay, dayIndex: number) => (
+    <DayCard
+      key={dayIndex}
+      day={day}
+      dayNumber={dayIndex + 1}
+      fromCity={day.isTransfer && itinerary?.legs && day.leg ? itinerary.legs[day.leg - 1]?.city : undefined}
+      toCity={day.isTransfer && itinerary?.legs && day.leg !== undefined ? itinerary.legs[day.leg]?.city : undefined}
+      party={itinerary?.party}
+      violations={violations.filter((violation) => violation.dayIndex === dayIndex)}
+      budget={budgetReport?.days[dayIndex]}
+      scheduleIssues={scheduleIssues.filter((issue) => issue.dayIndex === dayIndex)}
+      bookings={bookings.filter((booking) => isBookingOnDate(booking, day.date))}
+      bookingConflicts={bookingConflicts.filter((conflict) => conflict.dayIndex === dayIndex)}
+      canEdit={!!(isOwner || isCollaborator)}
+      regenerating={regenerating}
+      onRegenerate={(activityIndex) => handleRegenerate(dayIndex, activityIndex)}
+      onPin={(activityIndex) => setPinTarget({ dayIndex, activityIndex })}
+    />
+  );
+
   if (loading) {
     return (
       <ProtectedRoute>
@@ -203,7 +468,14 @@ export default function ItineraryDetail() {
             <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
               <div className="flex items-start justify-between mb-6">
                 <div className="flex-1">
-                  <h1 className="text-4xl font-bold text-gray-900 mb-2">{itinerary.title}</h1>
+                  <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                    {itinerary.title}
+                    {itinerary.isTemplate && (
+                      <span className="ml-3 align-middle px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-sm font-medium">
+                        Template
+                      </span>
+                    )}
+                  </h1>
                   <div className="flex flex-wrap items-center gap-4 text-gray-600">
                     <div className="flex items-center">
                       <FiMapPin className="w-5 h-5 mr-2 text-blue-600" />
@@ -211,12 +483,52 @@ export default function ItineraryDetail() {
                     </div>
                     <div className="flex items-center">
                       <FiCalendar className="w-5 h-5 mr-2 text-purple-600" />
-                      <span>{itinerary.totalDays} day{itinerary.totalDays > 1 ? 's' : ''}</span>
+                      <span>
+                        {itinerary.totalDays} day{itinerary.totalDays > 1 ? 's' : ''}
+                        {itinerary.startDate && itinerary.endDate && (
+                          <> · {formatTripDate(itinerary.startDate, { weekday: false })} – {formatTripDate(itinerary.endDate, { weekday: false })}</>
+                        )}
+                      </span>
                     </div>
+                    {(isOwner || isCollaborator) && !itinerary.isTemplate && (
+                      <label className="flex items-center text-sm">
+                        <span className="mr-2">Start date</span>
+                        <input
+                          type="date"
+                          value={itinerary.startDate || ''}
+                          disabled={updatingDates}
+                          onChange={(e) => handleStartDateChange(e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none disabled:opacity-50"
+                        />
+                      </label>
+                    )}
                     <div className="flex items-center">
                       <FiDollarSign className="w-5 h-5 mr-2 text-green-600" />
-                      <span>Budget: {formatCostToINR(itinerary.budget)}</span>
+                      <span>Budget: {formatCost(itinerary.budget, preference)}</span>
                     </div>
+                    {itinerary.party && (
+                      <div className="flex items-center">
+                        <FiUsers className="w-5 h-5 mr-2 text-orange-600" />
+                        <span>
+                          {describeParty(itinerary.party)}
+                          {itinerary.pace && ` · ${PACE_OPTIONS.find((option) => option.value === itinerary.pace)?.label} pace`}
+                        </span>
+                      </div>
+                    )}
+                    {itinerary.mobility && itinerary.mobility.length > 0 && (
+                      <span className="px-2 py-0.5 bg-orange-100 text-orange-700 rounded-full text-xs font-medium">
+                        {itinerary.mobility.join(' · ')}
+                      </span>
+                    )}
+                    {itinerary.constraints && [
+                      ...itinerary.constraints.dietary,
+                      ...itinerary.constraints.accessibility,
+                      ...itinerary.constraints.religious,
+                    ].map((constraint) => (
+                      <span key={constraint} className="px-2 py-0.5 bg-teal-100 text-teal-700 rounded-full text-xs font-medium">
+                        {constraint}
+                      </span>
+                    ))}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -237,10 +549,31 @@ export default function ItineraryDetail() {
                       </>
                     )}
                   </button>
+                  {itinerary.isTemplate ? (
+                    isOwner && (
+                      <Link
+                        href={`/create?template=${itinerary._id}`}
+                        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        <FiBookmark className="w-5 h-5" />
+                        <span>Use template</span>
+                      </Link>
+                    )
+                  ) : (isOwner || isCollaborator) && (
+                    <button
+                      onClick={handleSaveAsTemplate}
+                      disabled={savingTemplate}
+                      title="Save as template"
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <FiBookmark className="w-5 h-5" />
+                    </button>
+                  )}
                   {isOwner && (
                     <button
                       onClick={handleDelete}
                       disabled={deleting}
+                      title="Move to trash"
                       className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <FiTrash2 className="w-5 h-5" />
@@ -249,6 +582,15 @@ export default function ItineraryDetail() {
                 </div>
               </div>
 
+              {itinerary.generation && (
+                <p className="text-xs text-gray-400 -mt-3 mb-6">
+                  Generated with {itinerary.generation.model || itinerary.generation.provider}
+                  {itinerary.generation.promptVersion && ` · prompt ${itinerary.generation.promptVersion}`}
+                  {` · ${(itinerary.generation.latencyMs / 1000).toFixed(1)}s`}
+                  {itinerary.generation.repairAttempts > 0 && ` · ${itinerary.generation.repairAttempts} repair${itinerary.generation.repairAttempts > 1 ? 's' : ''}`}
+                </p>
+              )}
+
               {itinerary.summary && (
                 <div className="border-t pt-6">
                   <h3 className="text-lg font-semibold text-gray-900 mb-4">Trip Summary</h3>
@@ -268,14 +610,14 @@ export default function ItineraryDetail() {
                     )}
                     {/* Trip Statistics & Destination Info Card */}
                     <div className="flex-1">
-                      <TripStatsCard itinerary={itinerary} />
+                      <TripStatsCard itinerary={itinerary} expenses={expenses} />
                     </div>
                   </div>
                 </div>
               )}
 
               {/* Collaboration Section */}
-              {(isOwner || isCollaborator) && (
+              {(isOwner || isCollaborator) && !itinerary.isTemplate && (
                 <div className="border-t pt-6 mt-6">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-lg font-semibold text-gray-900 flex items-center">
@@ -333,13 +675,120 @@ export default function ItineraryDetail() {
               )}
             </div>
 
+            {/* Conversational refinement */}
+            {(isOwner || isCollaborator) && (
+              <RefinePanel itinerary={itinerary} onUpdate={setItinerary} />
+            )}
+
+            {(isOwner || isCollaborator) && !itinerary.isTemplate && (
+              <BookingsPanel itineraryId={String(itinerary._id)} bookings={bookings} onChange={setBookings} />
+            )}
+
+            {(isOwner || isCollaborator) && !itinerary.isTemplate && (
+              <ExpenseTracker itinerary={itinerary} expenses={expenses} onChange={setExpenses} />
+            )}
+
+            {(isOwner || isCollaborator) && (
+              <RevisionHistory itinerary={itinerary} onUpdate={setItinerary} />
+            )}
+
+            {budgetReport && (budgetReport.overBudgetBy > 0 || totalsMismatch) && (
+              <div className="bg-amber-50 border border-amber-200 rounded-2xl p-6 mb-8">
+                <h3 className="text-lg font-semibold text-amber-800 mb-2 flex items-center">
+                  <FiDollarSign className="w-5 h-5 mr-2" />
+                  {budgetReport.overBudgetBy > 0
+                    ? `${formatMoney(budgetReport.overBudgetBy, preference)} over budget`
+                    : 'Cost totals do not add up'}
+                </h3>
+                <ul className="space-y-1 text-sm text-amber-800">
+                  <li>
+                    Activities add up to {formatMoney(budgetReport.total, preference)}
+                    {budgetReport.budget !== null && <> against a budget of {formatMoney(budgetReport.budget, preference)}</>}
+                    {budgetReport.statedTotal !== null && <> (estimated total shown: {formatMoney(budgetReport.statedTotal, preference)})</>}
+                  </li>
+                  {budgetReport.days.filter((day) => day.mismatch).map((day) => (
+                    <li key={day.dayIndex}>
+                      Day {day.dayIndex + 1}: total says {formatMoney(day.stated || 0, preference)}, activities add up to {formatMoney(day.computed, preference)}
+                    </li>
+                  ))}
+                  {budgetReport.unparsed.length > 0 && (
+                    <li>{budgetReport.unparsed.length} activit{budgetReport.unparsed.length > 1 ? 'ies have' : 'y has'} no readable cost and {budgetReport.unparsed.length > 1 ? 'are' : 'is'} not counted</li>
+                  )}
+                </ul>
+                {(isOwner || isCollaborator) && (
+                  <div className="flex flex-wrap gap-3 mt-4">
+                    {budgetReport.overBudgetBy > 0 && (
+                      <button
+                        onClick={handleFitToBudget}
+                        disabled={fittingBudget}
+                        className="flex items-center space-x-2 px-4 py-2 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <FiRefreshCw className={`w-4 h-4 ${fittingBudget ? 'animate-spin' : ''}`} />
+                        <span>{fittingBudget ? 'Fitting to budget...' : 'Fit to budget'}</span>
+                      </button>
+                    )}
+                    {totalsMismatch && (
+                      <button
+                        onClick={handleFixTotals}
+                        disabled={fittingBudget}
+                        className="px-4 py-2 border border-amber-300 text-amber-800 rounded-lg text-sm font-medium hover:bg-amber-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Use activity totals
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {violations.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-2xl p-6 mb-8">
+                <h3 className="text-lg font-semibold text-amber-800 mb-2 flex items-center">
+                  <FiAlertTriangle className="w-5 h-5 mr-2" />
+                  {violations.length} activit{violations.length > 1 ? 'ies' : 'y'} may not meet your requirements
+                </h3>
+                <ul className="space-y-1 text-sm text-amber-800">
+                  {violations.map((violation, index) => (
+                    <li key={index}>
+                      Day {violation.dayIndex + 1}: {itinerary.days[violation.dayIndex]?.activities[violation.activityIndex]?.title}
+                      {' '}({violation.constraint} - {violation.reason})
+                    </li>
+                  ))}
+                </ul>
+                {(isOwner || isCollaborator) && (
+                  <p className="text-xs text-amber-700 mt-3">Regenerate these activities or ask for changes above to replace them.</p>
+                )}
+              </div>
+            )}
+
             {/* Itinerary Days Grid */}
             {itinerary.days && itinerary.days.length > 0 ? (
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {itinerary.days.map((day: IDay, dayIndex: number) => (
-                  <DayCard key={dayIndex} day={day} dayNumber={dayIndex + 1} />
-                ))}
-              </div>
+              itinerary.legs && itinerary.legs.length > 1 ? (
+                <div className="space-y-10">
+                  {itinerary.legs.map((leg, legIndex) => (
+                    <div key={legIndex}>
+                      <div className="flex items-center mb-4">
+                        <span className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-600 to-purple-600 text-white font-bold flex items-center justify-center mr-3">
+                          {legIndex + 1}
+                        </span>
+                        <h2 className="text-2xl font-bold text-gray-900">{leg.city}</h2>
+                        <span className="ml-3 text-gray-500">
+                          {leg.nights} night{leg.nights > 1 ? 's' : ''}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {itinerary.days.map((day: IDay, dayIndex: number) =>
+                          day.leg === legIndex ? renderDayCard(day, dayIndex) : null
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {itinerary.days.map((day: IDay, dayIndex: number) => renderDayCard(day, dayIndex))}
+                </div>
+              )
             ) : (
               <div className="bg-white rounded-2xl shadow-xl p-12 text-center">
                 <p className="text-gray-600 text-lg">No itinerary details available yet.</p>
@@ -362,27 +811,139 @@ export default function ItineraryDetail() {
             )}
           </div>
         </div>
+
+        {pinTarget && (() => {
+          const activity = itinerary.days[pinTarget.dayIndex]?.activities[pinTarget.activityIndex];
+          // Open the map near the day's other placed activities when this one has no location
+          const nearby = itinerary.days[pinTarget.dayIndex]?.activities.find((entry) => entry.geo)?.geo
+            || itinerary.days.flatMap((day) => day.activities).find((entry) => entry.geo)?.geo;
+
+          return (
+            <PinPicker
+              title={activity?.title || 'Activity'}
+              position={activity?.geo ? { lat: activity.geo.lat, lng: activity.geo.lng } : null}
+              fallbackCenter={nearby ? { lat: nearby.lat, lng: nearby.lng } : null}
+              hasManualPin={activity?.geo?.source === 'manual'}
+              onSave={handlePin}
+              onClose={() => setPinTarget(null)}
+            />
+          );
+        })()}
       </Layout>
     </ProtectedRoute>
   );
 }
 
-function DayCard({ day, dayNumber }: { day: IDay; dayNumber: number }) {
+interface DayCardProps {
+  day: IDay;
+  dayNumber: number;
+  // Set on transfer days of multi-city trips
+  fromCity?: string;
+  toCity?: string;
+  // Used to show per-person costs
+  party?: ITravelerParty;
+  violations: ConstraintViolation[];
+  budget?: DayBudget;
+  scheduleIssues: ScheduleIssue[];
+  // Confirmed bookings on this day
+  bookings: IBooking[];
+  bookingConflicts: BookingConflict[];
+  canEdit: boolean;
+  // Key of the day ("0") or activity ("0-2") currently being regenerated
+  regenerating: string | null;
+  onRegenerate: (activityIndex?: number) => void;
+  onPin: (activityIndex: number) => void;
+}
+
+function DayCard({ day, dayNumber, fromCity, toCity, party, violations, budget, scheduleIssues, bookings, bookingConflicts, canEdit, regenerating, onRegenerate, onPin }: DayCardProps) {
+  const dayKey = `${dayNumber - 1}`;
+  const { preference } = useCurrency();
+  const perPerson = formatPerPersonCost(day.totalCost, party, preference);
+  const isBusy = regenerating !== null;
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
       <div className="flex items-center justify-between mb-4 pb-4 border-b">
-        <h2 className="text-2xl font-bold text-gray-900">Day {dayNumber}</h2>
-        {day.totalCost && (
-          <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm font-semibold">
-            {formatCostToINR(day.totalCost)}
-          </span>
-        )}
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Day {dayNumber}</h2>
+          {isCalendarDate(day.date) && (
+            <p className="text-sm text-gray-500">{formatTripDate(day.date)}</p>
+          )}
+          {fromCity && toCity && (
+            <span className="inline-flex items-center mt-1 px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">
+              Travel day: {fromCity} → {toCity}
+            </span>
+          )}
+          {budget?.mismatch && (
+            <p className="flex items-center mt-1 text-xs text-amber-700">
+              <FiAlertTriangle className="w-3 h-3 mr-1" />
+              Activities add up to {formatMoney(budget.computed, preference)}
+            </p>
+          )}
+          {scheduleIssues.map((issue, index) => (
+            <p key={index} className={`flex items-center mt-1 text-xs ${issue.kind === 'gap' ? 'text-gray-500' : 'text-amber-700'}`}>
+              <FiClock className="w-3 h-3 mr-1 flex-shrink-0" />
+              {day.activities?.[issue.activityIndex]?.title}: {issue.message}
+            </p>
+          ))}
+          {bookingConflicts.map((conflict, index) => (
+            <p key={index} className="flex items-center mt-1 text-xs text-amber-700">
+              <FiAlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+              {day.activities?.[conflict.activityIndex]?.title}: {conflict.message}
+            </p>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {day.totalCost && (
+            <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm font-semibold">
+              {formatCost(day.totalCost, preference)}
+              {perPerson && <span className="font-normal"> ({perPerson}/person)</span>}
+            </span>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => onRegenerate()}
+              disabled={isBusy}
+              title="Regenerate this day"
+              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FiRefreshCw className={`w-4 h-4 ${regenerating === dayKey ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
       </div>
 
+      {bookings.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {bookings.map((booking) => (
+            <div key={booking._id} className="flex items-center gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+              <span className="px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
+                {getBookingTypeLabel(booking.type)}
+              </span>
+              <span className="font-medium text-gray-900">{booking.provider}</span>
+              <span className="text-gray-600">{describeBookingTime(booking, day.date)}</span>
+              {booking.confirmationNumber && (
+                <span className="text-xs text-gray-500">#{booking.confirmationNumber}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {day.activities && day.activities.length > 0 ? (
-        <div className="space-y-4">
+        <div className={`space-y-4 ${regenerating === dayKey ? 'opacity-50' : ''}`}>
           {day.activities.map((activity: IActivity, index: number) => (
-            <ActivityCard key={index} activity={activity} />
+            <ActivityCard
+              key={index}
+              activity={activity}
+              party={party}
+              violations={violations.filter((violation) => violation.activityIndex === index)}
+              canEdit={canEdit}
+              disabled={isBusy}
+              regenerating={regenerating === `${dayKey}-${index}`}
+              onRegenerate={() => onRegenerate(index)}
+              onPin={() => onPin(index)}
+            />
           ))}
         </div>
       ) : (
@@ -398,24 +959,74 @@ function DayCard({ day, dayNumber }: { day: IDay; dayNumber: number }) {
   );
 }
 
-function ActivityCard({ activity }: { activity: IActivity }) {
+interface ActivityCardProps {
+  activity: IActivity;
+  party?: ITravelerParty;
+  violations: ConstraintViolation[];
+  canEdit: boolean;
+  disabled: boolean;
+  regenerating: boolean;
+  onRegenerate: () => void;
+  onPin: () => void;
+}
+
+function ActivityCard({ activity, party, violations, canEdit, disabled, regenerating, onRegenerate, onPin }: ActivityCardProps) {
+  const { preference } = useCurrency();
+  const perPerson = formatPerPersonCost(activity.cost, party, preference);
+
   return (
-    <div className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+    <div className={`border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow ${regenerating ? 'opacity-50' : ''}`}>
       <div className="flex items-center gap-2 mb-2">
         <FiClock className="w-4 h-4 text-blue-600" />
         <span className="text-sm font-semibold text-blue-600">{activity.time}</span>
         {activity.duration && (
           <span className="text-xs text-gray-500">({activity.duration})</span>
         )}
+        {canEdit && (
+          <button
+            onClick={onPin}
+            disabled={disabled}
+            title="Pin on map"
+            className="ml-auto p-1 text-gray-400 hover:text-blue-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FiCrosshair className="w-4 h-4" />
+          </button>
+        )}
+        {canEdit && (
+          <button
+            onClick={onRegenerate}
+            disabled={disabled}
+            title="Regenerate this activity"
+            className="p-1 text-gray-400 hover:text-blue-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FiRefreshCw className={`w-4 h-4 ${regenerating ? 'animate-spin' : ''}`} />
+          </button>
+        )}
       </div>
       <h3 className="text-lg font-semibold text-gray-900 mb-1">{activity.title}</h3>
       {activity.location && (
         <div className="flex items-center text-sm text-gray-600 mb-2">
           <FiMapPin className="w-4 h-4 mr-1" />
           <span>{activity.location}</span>
+          {activity.geo && (
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${activity.geo.lat}&mlon=${activity.geo.lng}#map=16/${activity.geo.lat}/${activity.geo.lng}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="ml-2 text-xs text-blue-600 hover:underline"
+            >
+              Map{activity.geo.source === 'manual' ? ' (pinned)' : activity.geo.precision === 'city' ? ' (approximate)' : ''}
+            </a>
+          )}
         </div>
       )}
       <p className="text-sm text-gray-600 mb-2">{activity.description}</p>
+      {violations.map((violation) => (
+        <p key={violation.constraint} className="flex items-center text-xs text-amber-700 mb-2">
+          <FiAlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+          {violation.constraint}: {violation.reason}
+        </p>
+      ))}
       <div className="flex items-center justify-between">
         {activity.category && (
           <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">
@@ -423,24 +1034,33 @@ function ActivityCard({ activity }: { activity: IActivity }) {
           </span>
         )}
         {activity.cost && (
-          <span className="text-sm font-semibold text-green-600">{formatCostToINR(activity.cost)}</span>
+          <span className="text-sm font-semibold text-green-600">
+            {formatCost(activity.cost, preference)}
+            {perPerson && <span className="text-xs font-normal text-gray-500"> ({perPerson}/person)</span>}
+          </span>
         )}
       </div>
     </div>
   );
 }
 
-function TripStatsCard({ itinerary }: { itinerary: IItinerary }) {
+function TripStatsCard({ itinerary, expenses }: { itinerary: IItinerary; expenses: ExpenseEntry[] }) {
+  const { preference } = useCurrency();
+
   // Calculate total activities
   const totalActivities = itinerary.days?.reduce((total, day) => {
     return total + (day.activities?.length || 0);
   }, 0) || 0;
 
-  // Calculate budget per day in INR
-  const budgetValue = itinerary.budget?.replace(/[^0-9.]/g, '') || '0';
-  const budgetPerDay = itinerary.totalDays > 0 
-    ? (parseFloat(budgetValue) / itinerary.totalDays).toFixed(0)
-    : '0';
+  // Calculate budget per day (stored in INR)
+  const budgetMoney = itinerary.budgetMoney || parseMoney(itinerary.budget);
+  const budgetValue = budgetMoney ? moneyToINR(budgetMoney) : 0;
+  const budgetPerDay = itinerary.totalDays > 0 ? budgetValue / itinerary.totalDays : 0;
+
+  const totalCost = itinerary.summary?.totalEstimatedCost;
+  const totalMoney = itinerary.summary?.totalEstimatedCostMoney;
+  const totalPerPerson = formatPerPersonCost(totalCost, itinerary.party, preference);
+  const totalSpent = expenses.reduce((total, expense) => total + expense.amountINR, 0);
 
   // Destination info mapping with comprehensive data
   const getDestinationInfo = (destination: string) => {
@@ -745,8 +1365,35 @@ function TripStatsCard({ itinerary }: { itinerary: IItinerary }) {
             <FiDollarSign className="w-4 h-4 mr-2 text-green-600" />
             <span>Budget/Day</span>
           </div>
-          <span className="font-semibold text-gray-900">₹{parseInt(budgetPerDay).toLocaleString('en-IN')}</span>
+          <span className="font-semibold text-gray-900">{formatMoney(budgetPerDay, preference)}</span>
         </div>
+        {totalCost && (
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center text-gray-600">
+              <FiDollarSign className="w-4 h-4 mr-2 text-green-600" />
+              <span>Estimated Total</span>
+            </div>
+            <span className="font-semibold text-gray-900">{totalMoney ? formatMoneyValue(totalMoney, preference) : formatCost(totalCost, preference)}</span>
+          </div>
+        )}
+        {totalPerPerson && (
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center text-gray-600">
+              <FiUsers className="w-4 h-4 mr-2 text-orange-600" />
+              <span>Per Person ({partySize(itinerary.party)} travelers)</span>
+            </div>
+            <span className="font-semibold text-gray-900">{totalPerPerson}</span>
+          </div>
+        )}
+        {expenses.length > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center text-gray-600">
+              <FiDollarSign className="w-4 h-4 mr-2 text-red-600" />
+              <span>Spent So Far</span>
+            </div>
+            <span className="font-semibold text-gray-900">{formatMoney(totalSpent, preference)}</span>
+          </div>
+        )}
       </div>
 
       <div className="pt-3 border-t border-blue-200">
@@ -3,29 +3,64 @@ import { useSession } from 'next-auth/react';
 import toast from 'react-hot-toast';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { FiUser, FiMail, FiSave } from 'react-icons/fi';
+import ConstraintsEditor from '@/components/ConstraintsEditor';
+import { ITripConstraints } from '@/models/Itinerary';
+import { EMPTY_CONSTRAINTS } from '@/lib/tripConstraints';
+import type { UsageTotals } from '@/lib/usageLedger';
+import { formatMoney, LOCALE_OPTIONS, normalizeCurrencyPreference, SUPPORTED_CURRENCIES } from '@/lib/currencyUtils';
+import { useCurrency } from '@/components/CurrencyProvider';
+import { FiUser, FiMail, FiSave, FiShield, FiCpu, FiDollarSign } from 'react-icons/fi';
 
 interface UserProfile {
   _id: string;
   name: string;
   email: string;
   image?: string;
+  travelConstraints?: ITripConstraints;
+  homeCurrency?: string;
+  locale?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+interface UsageSummary {
+  totals: UsageTotals;
+  byFeature: (UsageTotals & { feature: string })[];
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  itinerary: 'Itinerary generation',
+  day: 'Day regeneration',
+  activity: 'Activity regeneration',
+  refine: 'Chat refinement',
+  budget: 'Fit to budget',
+  adapt: 'Template adaptation',
+};
+
+const formatTokens = (usage: UsageTotals) => (usage.promptTokens + usage.responseTokens).toLocaleString();
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+
 export default function Profile() {
   const { data: session } = useSession();
+  const { setPreference } = useCurrency();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [usage, setUsage] = useState<{ lastThirtyDays: UsageSummary; allTime: UsageSummary } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     image: '',
+    travelConstraints: EMPTY_CONSTRAINTS,
+    homeCurrency: 'INR',
+    locale: 'en-IN',
   });
 
   useEffect(() => {
     fetchProfile();
+    fetch('/api/user/usage')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setUsage(data?.data || null))
+      .catch(() => {});
   }, []);
 
   const fetchProfile = async () => {
@@ -38,6 +73,9 @@ export default function Profile() {
         setFormData({
           name: data.data.name || '',
           image: data.data.image || '',
+          travelConstraints: { ...EMPTY_CONSTRAINTS, ...data.data.travelConstraints },
+          homeCurrency: data.data.homeCurrency || 'INR',
+          locale: data.data.locale || 'en-IN',
         });
       } else {
         toast.error(data.message || 'Failed to fetch profile');
@@ -67,6 +105,7 @@ export default function Profile() {
       if (res.ok) {
         toast.success('Profile updated successfully!');
         setProfile(data.data);
+        setPreference(normalizeCurrencyPreference({ currency: data.data.homeCurrency, locale: data.data.locale }));
       } else {
         toast.error(data.message || 'Failed to update profile');
       }
@@ -152,6 +191,48 @@ export default function Profile() {
                   />
                 </div>
 
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                    <FiShield className="w-5 h-5 mr-2 text-blue-600" />
+                    Travel Requirements
+                  </label>
+                  <p className="text-xs text-gray-400 mb-3">Applied to every new trip you plan; you can still change them per trip</p>
+                  <ConstraintsEditor
+                    value={formData.travelConstraints}
+                    onChange={(travelConstraints) => setFormData({ ...formData, travelConstraints })}
+                  />
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                    <FiDollarSign className="w-5 h-5 mr-2 text-blue-600" />
+                    Currency &amp; Number Format
+                  </label>
+                  <p className="text-xs text-gray-400 mb-3">
+                    Costs are shown in your home currency, e.g. {formatMoney(50000, { currency: formData.homeCurrency, locale: formData.locale })}. Conversions use approximate rates.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <select
+                      value={formData.homeCurrency}
+                      onChange={(e) => setFormData({ ...formData, homeCurrency: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                    >
+                      {SUPPORTED_CURRENCIES.map((currency) => (
+                        <option key={currency.code} value={currency.code}>{currency.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={formData.locale}
+                      onChange={(e) => setFormData({ ...formData, locale: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus:outline-none"
+                    >
+                      {LOCALE_OPTIONS.map((locale) => (
+                        <option key={locale.value} value={locale.value}>{locale.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
                 {profile && (
                   <div className="border-t pt-6">
                     <div className="grid grid-cols-2 gap-4 text-sm">
@@ -182,6 +263,42 @@ export default function Profile() {
                   </button>
                 </div>
               </form>
+
+              {usage && (
+                <div className="border-t mt-8 pt-6">
+                  <h2 className="flex items-center text-lg font-semibold text-gray-900 mb-1">
+                    <FiCpu className="w-5 h-5 mr-2 text-blue-600" />
+                    AI Usage
+                  </h2>
+                  <p className="text-xs text-gray-400 mb-4">Model calls made for your trips, including automatic retries. Token counts and costs are estimates.</p>
+                  <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+                    {[
+                      { label: 'Last 30 days', summary: usage.lastThirtyDays },
+                      { label: 'All time', summary: usage.allTime },
+                    ].map(({ label, summary }) => (
+                      <div key={label} className="bg-gray-50 rounded-lg p-4">
+                        <p className="text-gray-500">{label}</p>
+                        <p className="text-gray-900 font-medium">
+                          {summary.totals.calls} calls · {formatTokens(summary.totals)} tokens
+                        </p>
+                        <p className="text-gray-500 text-xs">≈ {formatUsd(summary.totals.costUsd)}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {usage.allTime.byFeature.length > 0 && (
+                    <div className="space-y-1 text-sm">
+                      {usage.allTime.byFeature.map((row) => (
+                        <div key={row.feature} className="flex justify-between text-gray-700">
+                          <span>{FEATURE_LABELS[row.feature] || row.feature}</span>
+                          <span className="text-gray-500">
+                            {row.calls} calls · {formatTokens(row)} tokens · ≈ {formatUsd(row.costUsd)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseDuration, parseTime } from '@/lib/activitySchedule';
+
+describe('parseTime', () => {
+  it.each([
+    ['09:00 AM', 9 * 60],
+    ['9pm', 21 * 60],
+    ['9 p.m.', 21 * 60],
+    ['21:30', 21 * 60 + 30],
+    ['12 am', 0],
+    ['Noon', 12 * 60],
+    ['10:00 - 12:00', 10 * 60],
+    ['Day 2, 10:00 AM', 10 * 60],
+  ])('reads %s', (time, minutes) => {
+    expect(parseTime(time)).toBe(minutes);
+  });
+
+  it.each(['Day 2', '9 amazing', 'Evening', ''])('finds no time in "%s"', (time) => {
+    expect(parseTime(time)).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['2 hours', 120],
+    ['1.5 hrs', 90],
+    ['1 hour 30 minutes', 90],
+    ['1 hour and 30 mins', 90],
+    ['1h30m', 90],
+    ['2-3 hours', 180],
+    ['45 mins', 45],
+    ['2 hours (including 15 min walk)', 120],
+    ['Half day', 240],
+  ])('reads %s', (duration, minutes) => {
+    expect(parseDuration(duration)).toBe(minutes);
+  });
+
+  it.each(['2 hotels', 'A while'])('finds no duration in "%s"', (duration) => {
+    expect(parseDuration(duration)).toBeNull();
+  });
+});
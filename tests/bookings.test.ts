@@ -0,0 +1,20 @@
+import { validateHeaderValue } from 'http';
+import { describe, expect, it } from 'vitest';
+import { attachmentDisposition } from '@/lib/bookings';
+
+describe('attachmentDisposition', () => {
+  it('keeps ASCII names as they are', () => {
+    expect(attachmentDisposition('ticket.pdf')).toBe(`inline; filename="ticket.pdf"; filename*=UTF-8''ticket.pdf`);
+  });
+
+  it.each(['ticket—2.pdf', 'टिकट.pdf', 'Café "Zürich".png', 'line\r\nbreak.pdf'])('produces a valid header for %s', (filename) => {
+    const header = attachmentDisposition(filename);
+
+    expect(() => validateHeaderValue('Content-Disposition', header)).not.toThrow();
+    expect(decodeURIComponent(header.split("filename*=UTF-8''")[1])).toBe(filename);
+  });
+
+  it('transliterates accents in the ASCII fallback', () => {
+    expect(attachmentDisposition('Café.png')).toContain('filename="Cafe.png"');
+  });
+});
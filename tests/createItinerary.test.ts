@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import generateHandler from '@/pages/api/itineraries/generate';
+import jobHandler from '@/pages/api/itineraries/jobs/[id]';
+import itineraryHandler from '@/pages/api/itineraries/[id]';
+import { runGenerationJob, setGenerationQueue } from '@/lib/generationJobs';
+import { consumeGeneration } from '@/lib/generationQuota';
+import GenerationJob from '@/models/GenerationJob';
+import Itinerary from '@/models/Itinerary';
+import { callRoute } from './helpers/http';
+import { useMemoryModel } from './helpers/memoryModel';
+
+const session = vi.hoisted(() => ({ user: { id: '', email: 'traveler@example.com' } }));
+
+vi.mock('next-auth/next', () => ({ getServerSession: vi.fn(async () => session) }));
+vi.mock('@/pages/api/auth/[...nextauth]', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn(async () => undefined), getConnectionErrorMessage: () => 'Database error' }));
+vi.mock('@/lib/generationQuota', () => ({ consumeGeneration: vi.fn(async () => undefined) }));
+vi.mock('@/lib/generationCache', () => ({
+  findCachedItinerary: vi.fn(async () => null),
+  cacheItinerary: vi.fn(async () => undefined),
+}));
+vi.mock('@/lib/usageLedger', () => ({ recordUsage: vi.fn(async () => undefined) }));
+vi.mock('@/lib/itineraryRevisions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/itineraryRevisions')>()),
+  recordRevision: vi.fn(async () => undefined),
+}));
+
+const body = {
+  destination: 'Jaipur',
+  days: '2',
+  budget: '20000',
+  interests: ['Culture', 'Food'],
+  startDate: '2026-03-30',
+};
+
+describe('creating an itinerary', () => {
+  let queued: string[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    session.user.id = new mongoose.Types.ObjectId().toString();
+    queued = [];
+    setGenerationQueue({ enqueue: (jobId) => void queued.push(jobId) });
+    useMemoryModel(GenerationJob);
+    useMemoryModel(Itinerary);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(consumeGeneration).mockClear();
+  });
+
+  async function createItinerary() {
+    const created = await callRoute(generateHandler, { method: 'POST', body });
+    expect(created.statusCode).toBe(202);
+    expect(created.body.data.status).toBe('queued');
+
+    const jobId = created.body.data._id;
+    expect(queued[queued.length - 1]).toBe(jobId);
+    await runGenerationJob(jobId);
+
+    const polled = await callRoute(jobHandler, { query: { id: jobId } });
+    expect(polled.statusCode).toBe(200);
+    expect(polled.body.data.status).toBe('succeeded');
+    expect(polled.body.data.partialDays).toEqual([]);
+
+    return callRoute(itineraryHandler, { query: { id: polled.body.data.itineraryId } });
+  }
+
+  it('queues a job and shows the generated itinerary on the detail route', async () => {
+    const detail = await createItinerary();
+
+    expect(detail.statusCode).toBe(200);
+    const itinerary = detail.body.data;
+    expect(itinerary.title).toBe('Jaipur - 2 Days Trip');
+    expect(itinerary.budget).toBe('₹20,000');
+    expect(itinerary.endDate).toBe('2026-03-31');
+    expect(itinerary.days.map((day: { date: string }) => day.date)).toEqual(['2026-03-30', '2026-03-31']);
+    expect(itinerary.days[0].activities).toHaveLength(4);
+    expect(itinerary.generation).toMatchObject({ provider: 'fixture', model: 'fixture-v1', repairAttempts: 0 });
+  });
+
+  it('produces the same days for the same request', async () => {
+    const first = await createItinerary();
+    const second = await createItinerary();
+
+    expect(second.body.data._id).not.toBe(first.body.data._id);
+    expect(second.body.data.days).toEqual(first.body.data.days);
+  });
+
+  it.each([
+    ['without a destination', { destination: '' }],
+    ['with days that are not a number', { days: 'abc' }],
+    ['with no days', { days: '0' }],
+    ['with too many days', { days: '100000' }],
+    ['with a fractional number of days', { days: '2.5' }],
+    ['with interests that are not text', { interests: [{ $gt: '' }] }],
+    ['with interests that are not a list', { interests: 'Culture' }],
+  ])('rejects a request %s before counting it', async (_, fields) => {
+    const response = await callRoute(generateHandler, { method: 'POST', body: { ...body, ...fields } });
+
+    expect(response.statusCode).toBe(400);
+    expect(consumeGeneration).not.toHaveBeenCalled();
+    expect(queued).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { fixtureProvider } from '@/lib/providers/fixtureProvider';
+import { TripRequest } from '@/lib/providers';
+import { validateItinerary } from '@/lib/itinerarySchema';
+
+const trip: TripRequest = {
+  destination: 'Jaipur',
+  days: 2,
+  budget: '₹20,000',
+  interests: ['Culture', 'Food'],
+};
+
+async function buildItinerary(request: TripRequest) {
+  const { text } = await fixtureProvider.complete({ task: { kind: 'itinerary', trip: request }, prompt: '' });
+  return JSON.parse(text);
+}
+
+describe('fixtureProvider', () => {
+  it('returns the same valid itinerary for the same trip', async () => {
+    const first = await buildItinerary(trip);
+
+    expect(await buildItinerary(trip)).toEqual(first);
+    expect(validateItinerary(first)).toEqual([]);
+    expect(first.days).toHaveLength(2);
+    expect(first.days[0].date).toBe('Day 1');
+  });
+
+  it('splits the budget across the days', async () => {
+    const itinerary = await buildItinerary(trip);
+
+    expect(itinerary.days[0].totalCost).toBe('₹10,000');
+    expect(itinerary.summary.totalEstimatedCost).toBe('₹20,000');
+  });
+
+  it('converts foreign budgets and counts ranges at their upper end', async () => {
+    const itinerary = await buildItinerary({ ...trip, budget: '$20-30' });
+
+    // $30 at 83 INR per USD
+    expect(itinerary.summary.totalEstimatedCost).toBe('₹2,490');
+  });
+
+  it('dates the days from the start date', async () => {
+    const itinerary = await buildItinerary({ ...trip, startDate: '2026-03-30' });
+
+    expect(itinerary.days.map((day: { date: string }) => day.date)).toEqual(['2026-03-30', '2026-03-31']);
+  });
+});
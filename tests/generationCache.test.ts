@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildCacheKey, findCachedItinerary } from '@/lib/generationCache';
+import { TripRequest } from '@/lib/providers';
+
+const entry = vi.hoisted(() => ({
+  itinerary: {
+    destination: 'Goa',
+    totalDays: 2,
+    budget: '₹30,000',
+    interests: ['Beaches'],
+    startDate: '2026-01-05',
+    days: [
+      { day: 1, date: '2026-01-05', weekday: 'Monday', activities: [], totalCost: '₹15,000', notes: '' },
+      { day: 2, date: '2026-01-06', weekday: 'Tuesday', activities: [], totalCost: '₹15,000', notes: '' },
+    ],
+    summary: { totalEstimatedCost: '₹30,000', highlights: [], tips: [] },
+  },
+}));
+
+vi.mock('@/models/GenerationCache', () => ({
+  default: { findOneAndUpdate: () => ({ lean: async () => entry }) },
+}));
+
+const trip: TripRequest = {
+  destination: 'Goa',
+  days: 2,
+  budget: '₹30,000',
+  interests: ['Beaches', 'Food'],
+};
+
+describe('buildCacheKey', () => {
+  it('ignores dates, travelers and requirements', () => {
+    expect(buildCacheKey({
+      ...trip,
+      destination: '  goa ',
+      interests: ['food', 'Beaches'],
+      budget: '₹32,000',
+      startDate: '2026-03-01',
+      party: { adults: 2, childAges: [6], seniors: 0 },
+      pace: 'relaxed',
+      mobility: ['Wheelchair user'],
+      homeCurrency: 'USD',
+    })).toBe(buildCacheKey(trip));
+  });
+
+  it.each([
+    ['destination', { destination: 'Jaipur' }],
+    ['days', { days: 3 }],
+    ['budget band', { budget: '₹200,000' }],
+    ['interests', { interests: ['Beaches'] }],
+  ])('depends on the %s', (_, change) => {
+    expect(buildCacheKey({ ...trip, ...change })).not.toBe(buildCacheKey(trip));
+  });
+});
+
+describe('findCachedItinerary', () => {
+  it('re-dates a hit to the requested start date', async () => {
+    const cached = await findCachedItinerary({ ...trip, budget: '₹32,000', startDate: '2026-03-02' });
+
+    expect(cached?.itinerary.budget).toBe('₹32,000');
+    expect(cached?.itinerary.days.map((day) => [day.date, day.weekday])).toEqual([
+      ['2026-03-02', 'Monday'],
+      ['2026-03-03', 'Tuesday'],
+    ]);
+  });
+
+  it('numbers the days of an undated request', async () => {
+    const cached = await findCachedItinerary(trip);
+
+    expect(cached?.itinerary.days.map((day) => day.date)).toEqual(['Day 1', 'Day 2']);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { gazetteerGeocoder } from '@/lib/geocoding/gazetteerGeocoder';
+import { GeocodeQuery } from '@/lib/geocoding';
+
+const geocode = async (query: GeocodeQuery) => (await gazetteerGeocoder.geocode([query]))[0];
+
+describe('gazetteerGeocoder', () => {
+  it('places landmarks within the trip city', async () => {
+    expect(await geocode({ location: 'Notre Dame', city: 'Paris, France' })).toMatchObject({
+      name: 'Notre-Dame Cathedral',
+      precision: 'landmark',
+    });
+  });
+
+  it('falls back to the city centre for unknown places', async () => {
+    expect(await geocode({ location: 'A small cafe', city: 'Paris' })).toMatchObject({ name: 'Paris', precision: 'city' });
+  });
+
+  it('does not place activities in a city it does not know', async () => {
+    expect(await geocode({ location: 'Basilique Notre Dame de Fourvière', city: 'Lyon' })).toBeNull();
+    expect(await geocode({ location: 'Central Park', city: 'Springfield' })).toBeNull();
+  });
+
+  it('searches every city when none is given', async () => {
+    expect(await geocode({ location: 'Central Park' })).toMatchObject({ name: 'Central Park', precision: 'landmark' });
+  });
+});
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+export interface RouteResponse {
+  statusCode: number;
+  headers: Record<string, unknown>;
+  // The JSON body as a client would receive it
+  body: any;
+}
+
+/**
+ * Calls an API route handler with a minimal request and response
+ */
+export async function callRoute(
+  handler: Handler,
+  { method = 'GET', query = {}, body }: { method?: string; query?: Record<string, string>; body?: unknown } = {}
+): Promise<RouteResponse> {
+  const result: RouteResponse = { statusCode: 200, headers: {}, body: undefined };
+
+  const res = {
+    status(code: number) {
+      result.statusCode = code;
+      return res;
+    },
+    json(data: unknown) {
+      result.body = JSON.parse(JSON.stringify(data));
+      return res;
+    },
+    setHeader(name: string, value: unknown) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+  };
+
+  await handler({ method, query, body, headers: {} } as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return result;
+}
@@ -0,0 +1,84 @@
+import { vi } from 'vitest';
+import type { Document, Model } from 'mongoose';
+
+type Filter = Record<string, any>;
+
+function matches(doc: Document, filter: Filter): boolean {
+  return Object.entries(filter || {}).every(([path, expected]) => {
+    if (path === '$or') {
+      return (expected as Filter[]).some((alternative) => matches(doc, alternative));
+    }
+
+    const actual = doc.get(path);
+    if (expected && typeof expected === 'object' && Array.isArray(expected.$in)) {
+      return expected.$in.some((value: unknown) => String(value) === String(actual));
+    }
+
+    return Array.isArray(actual)
+      ? actual.some((value) => String(value) === String(expected))
+      : String(actual) === String(expected);
+  });
+}
+
+function applyUpdate(doc: Document, update: Filter) {
+  const { $set, ...fields } = update;
+  for (const [path, value] of Object.entries({ ...fields, ...$set })) {
+    doc.set(path, value);
+  }
+}
+
+// Resolves like a query, with the chainable methods the routes call
+function query<T>(result: T) {
+  const chain: any = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    limit: () => chain,
+    then: (resolve: (value: T) => unknown, reject: (error: unknown) => unknown) => Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+}
+
+/**
+ * Keeps a model's documents in memory by replacing the statics the code under test
+ * calls, so API routes run without a MongoDB server. Documents are still built and
+ * validated by the real schema. Filters support equality on paths, arrays that
+ * contain the value, $in and $or. Undo with vi.restoreAllMocks().
+ */
+export function useMemoryModel(model: Model<any>) {
+  const docs: Document[] = [];
+  const target = model as any;
+  const findOne = (filter: Filter) => docs.find((doc) => matches(doc, filter)) || null;
+
+  vi.spyOn(target, 'create').mockImplementation(async (data: any) => {
+    const doc = new model(data);
+    await doc.validate();
+    docs.push(doc);
+    return doc;
+  });
+
+  vi.spyOn(target, 'findOne').mockImplementation((filter: any) => query(findOne(filter)));
+
+  vi.spyOn(target, 'exists').mockImplementation((filter: any) => {
+    const doc = findOne(filter);
+    return query(doc ? { _id: doc._id } : null);
+  });
+
+  vi.spyOn(target, 'updateOne').mockImplementation((filter: any, update: any) => {
+    const doc = findOne(filter);
+    if (doc) {
+      applyUpdate(doc, update);
+    }
+    return query({ matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 });
+  });
+
+  vi.spyOn(target, 'findOneAndUpdate').mockImplementation((filter: any, update: any) => {
+    const doc = findOne(filter);
+    if (doc) {
+      applyUpdate(doc, update);
+    }
+    return query(doc);
+  });
+
+  return docs;
+}
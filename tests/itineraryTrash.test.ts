@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Itinerary from '@/models/Itinerary';
+import { purgeExpiredTrashInBackground } from '@/lib/itineraryTrash';
+
+describe('purgeExpiredTrashInBackground', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // The lookup never settles, which shows that callers do not wait for it
+    vi.spyOn(Itinerary, 'find').mockImplementation((() => ({
+      select: () => ({ lean: () => new Promise(() => undefined) }),
+    })) as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('starts at most one purge per hour without waiting for it', () => {
+    purgeExpiredTrashInBackground();
+    purgeExpiredTrashInBackground();
+    expect(Itinerary.find).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(59 * 60 * 1000);
+    purgeExpiredTrashInBackground();
+    expect(Itinerary.find).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60 * 1000);
+    purgeExpiredTrashInBackground();
+    expect(Itinerary.find).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { moneyToINR, parseMoney } from '@/lib/currencyUtils';
+import { parseCost } from '@/lib/budgetCompliance';
+import { applyMoneyFields, CostedItinerary } from '@/lib/itineraryMoney';
+import Itinerary from '@/models/Itinerary';
+
+describe('parseMoney and parseCost', () => {
+  it.each([
+    ['₹4,150', 4150],
+    ['$20-30', 2490],
+    ['1.5 lakh', 150000],
+    ['Entry ₹50, guide ₹300', 350],
+    ['₹300 each (₹900 total)', 900],
+    ['₹2,000 (₹1,000 per person)', 2000],
+    ['Entry $10 + ₹200', 1030],
+    ['Free', 0],
+  ])('read %s as ₹%i', (cost, inr) => {
+    expect(moneyToINR(parseMoney(cost)!)).toBe(inr);
+    expect(parseCost(cost)).toBe(inr);
+  });
+
+  it('keeps ranges when adding up separate amounts', () => {
+    expect(parseMoney('Entry ₹50, guide ₹300-500')).toEqual({ amount: 350, max: 550, currency: 'INR' });
+  });
+
+  it('multiplies only the per-person amounts by the party size', () => {
+    expect(parseCost('Entry ₹50 per person, guide ₹300', 3)).toBe(450);
+  });
+});
+
+describe('applyMoneyFields', () => {
+  it('stores null for a budget without an amount', () => {
+    const itinerary: CostedItinerary = { budget: 'Flexible' };
+
+    expect(applyMoneyFields(itinerary).unparsed).toEqual(['Flexible']);
+    expect(itinerary.budgetMoney).toBeNull();
+  });
+});
+
+describe('Itinerary soft delete', () => {
+  const filterAfterHooks = async (query: ReturnType<typeof Itinerary.find>) => {
+    // Runs the schema's pre('find') hooks without sending the query
+    await new Promise<void>((resolve, reject) => {
+      (Itinerary.schema as any).s.hooks.execPre('find', query, [], (error?: Error) => (error ? reject(error) : resolve()));
+    });
+    return query.getFilter();
+  };
+
+  it('leaves trashed itineraries out by default', async () => {
+    expect(await filterAfterHooks(Itinerary.find({}))).toEqual({ deletedAt: null });
+  });
+
+  it('includes them with the withTrashed option', async () => {
+    expect(await filterAfterHooks(Itinerary.find({}).setOptions({ withTrashed: true }))).toEqual({});
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeRateLimits, getUsage, RateLimitError, RateLimitRule } from '@/lib/rateLimit';
+
+const counters = vi.hoisted(() => new Map<string, number>());
+
+// Applies the counter updates consumeRateLimits makes, without MongoDB
+vi.mock('@/models/RateLimitCounter', () => ({
+  default: {
+    findOne: ({ key }: { key: string }) => ({
+      lean: async () => (counters.has(key) ? { key, count: counters.get(key) } : null),
+    }),
+    findOneAndUpdate: async ({ key, count }: { key: string; count: { $lt: number } }) => {
+      const current = counters.get(key) || 0;
+      if (current >= count.$lt) {
+        if (counters.has(key)) {
+          throw Object.assign(new Error('duplicate key'), { code: 11000 });
+        }
+        return null;
+      }
+      counters.set(key, current + 1);
+      return { key, count: current + 1 };
+    },
+    updateOne: async ({ key }: { key: string }, { $inc }: { $inc: { count: number } }) => {
+      counters.set(key, (counters.get(key) || 0) + $inc.count);
+    },
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const rule: RateLimitRule = { key: 'test', limit: 3, windowMs: MINUTE, message: 'Too many requests.' };
+
+async function attempt(rules: RateLimitRule[] = [rule]): Promise<number | null> {
+  try {
+    await consumeRateLimits(rules);
+    return null;
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return error.retryAfterSeconds;
+    }
+    throw error;
+  }
+}
+
+describe('consumeRateLimits', () => {
+  beforeEach(() => {
+    counters.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(100 * MINUTE);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows the limit within a window', async () => {
+    expect([await attempt(), await attempt(), await attempt()]).toEqual([null, null, null]);
+    // The rest of this window, then a third of the next one for the three requests to weigh only two
+    expect(await attempt()).toBe(80);
+
+    vi.setSystemTime(100 * MINUTE + 80 * 1000);
+    expect(await attempt()).toBeNull();
+  });
+
+  it('does not allow a second burst just after a window boundary', async () => {
+    vi.setSystemTime(100 * MINUTE + 59 * 1000);
+    expect([await attempt(), await attempt(), await attempt()]).toEqual([null, null, null]);
+
+    vi.setSystemTime(101 * MINUTE);
+    const retryAfter = await attempt();
+    // A third of the previous window has to slide out before one request fits again
+    expect(retryAfter).toBe(20);
+
+    vi.setSystemTime(101 * MINUTE + (retryAfter! - 1) * 1000);
+    expect(await attempt()).not.toBeNull();
+
+    vi.setSystemTime(101 * MINUTE + retryAfter! * 1000);
+    expect(await attempt()).toBeNull();
+    expect(await attempt()).not.toBeNull();
+  });
+
+  it('reports usage across both windows', async () => {
+    await attempt();
+    await attempt();
+    vi.setSystemTime(101 * MINUTE + 30 * 1000);
+    await attempt();
+
+    // Half of the two earlier requests still counts
+    expect(await getUsage(rule)).toBe(2);
+  });
+
+  it('counts a rejected request against no rule', async () => {
+    const strict = { ...rule, key: 'strict', limit: 1 };
+    expect(await attempt([rule, strict])).toBeNull();
+    // With a limit of one, the request has to slide out of the next window entirely
+    expect(await attempt([rule, strict])).toBe(120);
+
+    expect(await getUsage(rule)).toBe(1);
+  });
+});
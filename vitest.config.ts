@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Tests never call a real model
+    env: {
+      ITINERARY_PROVIDER: 'fixture',
+    },
+  },
+});